@@ -6,6 +6,7 @@ class Store {
     diagramVisible: true,
     selectedNodeIds: new Set(),
     dimmedNodeIds: new Set(),
+    selectedCycleId: null,
     directoryTree: null,
     selectedFilePath: null,
     openFile: null,
@@ -59,6 +60,12 @@ class Store {
     this.state.diagram = diagram;
     this.state.selectedNodeIds.clear();
     this.state.dimmedNodeIds.clear();
+    this.state.selectedCycleId = null;
+    this.notify();
+  }
+
+  selectCycle(cycleId: string | null) {
+    this.state.selectedCycleId = cycleId;
     this.notify();
   }
 
@@ -2,7 +2,7 @@
 export interface UmlNode {
   id: string;
   label: string;
-  kind: 'class' | 'module' | 'function' | 'interface' | 'type' | 'enum';
+  kind: 'class' | 'module' | 'function' | 'interface' | 'type' | 'enum' | 'variable' | 'component' | 'table' | 'route';
   file: string;
   symbol?: string;
   line?: number;
@@ -10,19 +10,76 @@ export interface UmlNode {
   methods?: string[];
   imports?: string[];
   exports?: string[];
+  propsType?: string;
+  hooks?: string[];
+  contexts?: string[];
+  tableName?: string;
+  columns?: Array<{
+    name: string;
+    type: string;
+    primaryKey?: boolean;
+    nullable?: boolean;
+    unique?: boolean;
+    references?: string;
+    file?: string;
+    line: number;
+  }>;
+  stereotype?: string;
+  isAbstract?: boolean;
+  route?: {
+    method: string;
+    path: string;
+  };
+  change?: 'added' | 'modified' | 'deleted';
+  metrics?: {
+    loc?: number;
+    complexity?: number;
+    members?: number;
+    fanIn: number;
+    fanOut: number;
+    methodComplexity?: Record<string, number>;
+  };
+  deadCode?: boolean;
+  doc?: SymbolDoc;
+  methodDocs?: Array<SymbolDoc | null>;
+}
+
+export interface SymbolDoc {
+  summary?: string;
+  params?: Record<string, string>;
+  returns?: string;
+  deprecated?: string | true;
+  tags?: Record<string, string[]>;
 }
 
 export interface UmlEdge {
   id: string;
   source: string;
   target: string;
-  type: 'import' | 'extends' | 'implements' | 'calls' | 'references' | 'contains';
+  type: 'import' | 'extends' | 'implements' | 'calls' | 'references' | 'contains' | 'renders' | 'relation' | 'generates' | 'injects';
   label?: string;
+  sourceMember?: string;
+  targetMember?: string;
+  count?: number;
+  multiplicity?: 'single' | 'array' | 'optional';
+  cardinality?: '1:1' | '1:N' | 'N:1' | 'N:M';
+  change?: 'added' | 'modified' | 'deleted';
+  violation?: string;
 }
 
 export interface UmlDiagram {
   nodes: UmlNode[];
   edges: UmlEdge[];
+  cycles?: UmlCycle[];
+}
+
+export interface UmlCycle {
+  id: string;
+  kind: 'import' | 'symbol';
+  files: string[];
+  nodeIds: string[];
+  edgeIds: string[];
+  path: string[];
 }
 
 export interface DirNode {
@@ -55,6 +112,7 @@ export interface AppState {
   diagramVisible: boolean;
   selectedNodeIds: Set<string>;
   dimmedNodeIds: Set<string>;
+  selectedCycleId: string | null;
   
   // Directory Tree
   directoryTree: DirNode | null;
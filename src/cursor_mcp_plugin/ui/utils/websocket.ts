@@ -92,6 +92,10 @@ class WebSocketClient {
         this.handleChunkedComplete(message);
         break;
         
+      case 'uml:cycle:select':
+        this.handleCycleSelect(message);
+        break;
+        
       case 'code:open':
         this.handleCodeOpen(message);
         break;
@@ -194,6 +198,10 @@ class WebSocketClient {
     }
   }
 
+  private handleCycleSelect(message: WebSocketMessage) {
+    store.selectCycle(message.payload?.cycleId || null);
+  }
+
   private handleCommentUpsert(message: WebSocketMessage) {
     const comment = message.payload;
     console.log('Comment upsert:', comment);
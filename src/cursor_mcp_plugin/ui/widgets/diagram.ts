@@ -1,6 +1,16 @@
 import { store } from '../store/store';
 import { wsClient } from '../utils/websocket';
-import { UmlDiagram, UmlNode, UmlEdge } from '../store/types';
+import { UmlDiagram, UmlNode, UmlEdge, UmlCycle, SymbolDoc } from '../store/types';
+
+type MetricKey = 'loc' | 'complexity' | 'members' | 'fanIn' | 'fanOut';
+
+const METRIC_LABELS: Record<MetricKey, string> = {
+  loc: 'LOC',
+  complexity: 'complexity',
+  members: 'members',
+  fanIn: 'fan-in',
+  fanOut: 'fan-out'
+};
 
 export class DiagramWidget {
   private container: HTMLElement;
@@ -9,6 +19,8 @@ export class DiagramWidget {
   private unsubscribe: (() => void) | null = null;
   
   private nodePositions = new Map<string, { x: number, y: number, width: number, height: number }>();
+  // Where nodes were last drawn, which differs from their grid cell in metric size mode
+  private drawnPositions = new Map<string, { x: number, y: number, width: number, height: number }>();
   private scale = 1;
   private panX = 0;
   private panY = 0;
@@ -19,6 +31,16 @@ export class DiagramWidget {
   private nodeWidth = 180;
   private nodeHeight = 120;
   private nodeSpacing = 40;
+  
+  // Diagram the cycle picker was last filled from
+  private cycleOptionsDiagram: UmlDiagram | null = null;
+  private cycleColor = '#f43f5e';
+  private deadCodeColor = '#4b5563';
+  private violationColor = '#dc2626';
+  
+  // Metric nodes are colored or sized by, relative to the largest value in the diagram
+  private metric: MetricKey | null = null;
+  private metricMode: 'color' | 'size' = 'color';
 
   constructor(container: HTMLElement) {
     this.container = container;
@@ -31,6 +53,19 @@ export class DiagramWidget {
       <div class="diagram-header">
         <h3>UML Diagram</h3>
         <div class="diagram-controls">
+          <select id="cycle-select" class="cycle-select" title="Highlight a dependency cycle"></select>
+          <select id="metric-select" class="metric-select" title="Show a code metric">
+            <option value="">No metric</option>
+            <option value="loc">Lines of code</option>
+            <option value="complexity">Complexity</option>
+            <option value="members">Members</option>
+            <option value="fanIn">Fan-in</option>
+            <option value="fanOut">Fan-out</option>
+          </select>
+          <select id="metric-mode" class="metric-select" title="Show the metric as">
+            <option value="color">Color</option>
+            <option value="size">Size</option>
+          </select>
           <button id="fit-diagram" class="icon-button" title="Fit to Screen">
             🔍
           </button>
@@ -47,6 +82,7 @@ export class DiagramWidget {
       </div>
       <div class="diagram-container">
         <canvas id="diagram-canvas"></canvas>
+        <div class="diagram-hovercard" id="diagram-hovercard"></div>
         <div class="diagram-legend" id="diagram-legend">
           <h4>Legend</h4>
           <div class="legend-item">
@@ -73,6 +109,54 @@ export class DiagramWidget {
             <div class="legend-color enum"></div>
             <span>Enum</span>
           </div>
+          <div class="legend-item">
+            <div class="legend-color variable"></div>
+            <span>Variable</span>
+          </div>
+          <div class="legend-item">
+            <div class="legend-color component"></div>
+            <span>Component</span>
+          </div>
+          <div class="legend-item">
+            <div class="legend-color table"></div>
+            <span>Table</span>
+          </div>
+          <div class="legend-item">
+            <div class="legend-color route"></div>
+            <span>Route</span>
+          </div>
+          <div class="legend-item">
+            <div class="legend-color change-added"></div>
+            <span>Added</span>
+          </div>
+          <div class="legend-item">
+            <div class="legend-color change-modified"></div>
+            <span>Modified</span>
+          </div>
+          <div class="legend-item">
+            <div class="legend-color change-deleted"></div>
+            <span>Deleted</span>
+          </div>
+          <div class="legend-item">
+            <div class="legend-color cycle"></div>
+            <span>Dependency cycle</span>
+          </div>
+          <div class="legend-item">
+            <div class="legend-color violation"></div>
+            <span>Layer violation</span>
+          </div>
+          <div class="legend-item">
+            <div class="legend-color dead-code"></div>
+            <span>Dead code</span>
+          </div>
+          <div class="legend-item">
+            <div class="legend-color deprecated"></div>
+            <span>Deprecated</span>
+          </div>
+          <div class="legend-item">
+            <div class="legend-color metric-scale"></div>
+            <span>Metric low → high</span>
+          </div>
         </div>
       </div>
     `;
@@ -120,10 +204,26 @@ export class DiagramWidget {
       legend.classList.toggle('visible');
     });
 
+    const cycleSelect = this.container.querySelector('#cycle-select') as HTMLSelectElement;
+    cycleSelect?.addEventListener('change', () => store.selectCycle(cycleSelect.value || null));
+
+    const metricSelect = this.container.querySelector('#metric-select') as HTMLSelectElement;
+    metricSelect?.addEventListener('change', () => {
+      this.metric = (metricSelect.value || null) as MetricKey | null;
+      this.redraw();
+    });
+
+    const metricMode = this.container.querySelector('#metric-mode') as HTMLSelectElement;
+    metricMode?.addEventListener('change', () => {
+      this.metricMode = metricMode.value as 'color' | 'size';
+      this.redraw();
+    });
+
     // Canvas interaction
     this.canvas.addEventListener('mousedown', (e) => this.handleMouseDown(e));
     this.canvas.addEventListener('mousemove', (e) => this.handleMouseMove(e));
     this.canvas.addEventListener('mouseup', (e) => this.handleMouseUp(e));
+    this.canvas.addEventListener('mouseleave', () => this.hideHoverCard());
     this.canvas.addEventListener('wheel', (e) => this.handleWheel(e));
     this.canvas.addEventListener('click', (e) => this.handleClick(e));
   }
@@ -131,6 +231,7 @@ export class DiagramWidget {
   private subscribeToStore() {
     this.unsubscribe = store.subscribe((state) => {
       this.updateDiagram(state.diagram);
+      this.updateCycleOptions(state.diagram, state.selectedCycleId);
       this.updateSelection(state.selectedNodeIds, state.dimmedNodeIds);
     });
   }
@@ -142,6 +243,25 @@ export class DiagramWidget {
     this.redraw();
   }
 
+  // One option per cycle; the picker is hidden when the diagram has none
+  private updateCycleOptions(diagram: UmlDiagram | null, selectedCycleId: string | null) {
+    const select = this.container.querySelector('#cycle-select') as HTMLSelectElement;
+    if (!select) return;
+
+    if (diagram !== this.cycleOptionsDiagram) {
+      this.cycleOptionsDiagram = diagram;
+      const cycles = diagram?.cycles || [];
+      select.innerHTML = '';
+      select.add(new Option(`Cycles (${cycles.length})`, ''));
+      cycles.forEach(cycle => {
+        select.add(new Option(`${cycle.kind === 'import' ? 'Imports' : 'Symbols'}: ${cycle.path.join(' → ')}`, cycle.id));
+      });
+      select.style.display = cycles.length > 0 ? '' : 'none';
+    }
+
+    select.value = selectedCycleId || '';
+  }
+
   private updateSelection(selectedIds: Set<string>, dimmedIds: Set<string>) {
     this.redraw();
   }
@@ -186,11 +306,18 @@ export class DiagramWidget {
     this.ctx.translate(this.panX, this.panY);
     this.ctx.scale(this.scale, this.scale);
 
+    // A highlighted cycle dims everything outside it
+    const cycle = state.diagram.cycles?.find(c => c.id === state.selectedCycleId);
+    const cycleNodeIds = new Set(cycle?.nodeIds || []);
+    const dimmedNodeIds = cycle ?
+      new Set(state.diagram.nodes.filter(node => !cycleNodeIds.has(node.id)).map(node => node.id)) :
+      state.dimmedNodeIds;
+
     // Draw edges first
-    this.drawEdges(state.diagram.edges, state.selectedNodeIds, state.dimmedNodeIds);
+    this.drawEdges(state.diagram.edges, state.selectedNodeIds, dimmedNodeIds, cycle);
     
     // Draw nodes
-    this.drawNodes(state.diagram.nodes, state.selectedNodeIds, state.dimmedNodeIds);
+    this.drawNodes(state.diagram.nodes, state.selectedNodeIds, dimmedNodeIds, cycleNodeIds);
 
     this.ctx.restore();
   }
@@ -208,44 +335,76 @@ export class DiagramWidget {
     this.ctx.fillText('Click Generate UML to create one', canvasWidth / 2, canvasHeight / 2 + 25);
   }
 
-  private drawNodes(nodes: UmlNode[], selectedIds: Set<string>, dimmedIds: Set<string>) {
+  private drawNodes(nodes: UmlNode[], selectedIds: Set<string>, dimmedIds: Set<string>, cycleNodeIds: Set<string>) {
+    const metric = this.metric;
+    const maxMetric = metric ? Math.max(0, ...nodes.map(node => node.metrics?.[metric] || 0)) : 0;
+    this.drawnPositions.clear();
+
     nodes.forEach(node => {
-      const pos = this.nodePositions.get(node.id);
-      if (!pos) return;
+      const gridPos = this.nodePositions.get(node.id);
+      if (!gridPos) return;
 
       const isSelected = selectedIds.has(node.id);
       const isDimmed = dimmedIds.has(node.id);
+      const value = metric ? node.metrics?.[metric] : undefined;
+      const ratio = value !== undefined && maxMetric > 0 ? value / maxMetric : 0;
       
-      this.drawNode(node, pos, isSelected, isDimmed);
+      // Size mode shrinks low-scoring nodes within their grid cell
+      const pos = metric && this.metricMode === 'size' ? this.scaledPosition(gridPos, 0.5 + 0.5 * ratio) : gridPos;
+      this.drawnPositions.set(node.id, pos);
+      this.drawNode(node, pos, isSelected, isDimmed, cycleNodeIds.has(node.id),
+        metric && value !== undefined ? { label: `${METRIC_LABELS[metric]} ${value}`, ratio } : undefined);
     });
   }
 
-  private drawNode(node: UmlNode, pos: { x: number, y: number, width: number, height: number }, isSelected: boolean, isDimmed: boolean) {
+  private scaledPosition(pos: { x: number, y: number, width: number, height: number }, factor: number) {
+    const width = pos.width * factor;
+    const height = pos.height * factor;
+    return { x: pos.x + (pos.width - width) / 2, y: pos.y + (pos.height - height) / 2, width, height };
+  }
+
+  private drawNode(node: UmlNode, pos: { x: number, y: number, width: number, height: number }, isSelected: boolean, isDimmed: boolean, inCycle = false, metric?: { label: string, ratio: number }) {
     const { x, y, width, height } = pos;
     
-    // Node background
-    this.ctx.fillStyle = this.getNodeColor(node.kind, isDimmed);
+    // Node background, or a green-to-red heat color in metric color mode; dead code is grayed out
+    const heatColor = metric && this.metricMode === 'color' ? this.getHeatColor(metric.ratio) : undefined;
+    this.ctx.fillStyle = heatColor && !isDimmed ? heatColor : node.deadCode ? this.deadCodeColor : this.getNodeColor(node.kind, isDimmed);
     if (isDimmed) {
       this.ctx.globalAlpha = 0.3;
+    } else if (node.deadCode) {
+      this.ctx.globalAlpha = 0.6;
     }
     
     this.ctx.fillRect(x, y, width, height);
     
-    // Node border
-    this.ctx.strokeStyle = isSelected ? '#18a0fb' : '#555';
-    this.ctx.lineWidth = isSelected ? 3 : 1;
+    // Node border; diff-scoped diagrams color it by change, dashed for deleted symbols
+    const changeColor = node.change ? this.getChangeColor(node.change) : undefined;
+    this.ctx.strokeStyle = isSelected ? '#18a0fb' : inCycle ? this.cycleColor : changeColor || '#555';
+    this.ctx.lineWidth = isSelected || inCycle ? 3 : changeColor ? 2 : 1;
+    if (node.change === 'deleted') this.ctx.setLineDash([6, 4]);
     this.ctx.strokeRect(x, y, width, height);
+    this.ctx.setLineDash([]);
+    
+    // Change badge in the top-right corner
+    if (node.change && changeColor) {
+      this.ctx.fillStyle = changeColor;
+      this.ctx.font = 'bold 12px Monaco, Menlo, "Ubuntu Mono", monospace';
+      this.ctx.textAlign = 'right';
+      this.ctx.fillText(node.change === 'added' ? '+' : node.change === 'deleted' ? '−' : '~', x + width - 6, y + 14);
+    }
     
     // Node label
     this.ctx.fillStyle = isDimmed ? '#666' : '#fff';
-    this.ctx.font = 'bold 14px -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
+    this.ctx.font = `${node.isAbstract ? 'italic ' : ''}bold 14px -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif`;
     this.ctx.textAlign = 'center';
     this.ctx.fillText(node.label, x + width / 2, y + 20);
+    if (node.doc?.deprecated) this.drawTextLine(node.label, x + width / 2, y + 20, -4);
     
-    // Node kind
+    // Node kind, or the framework stereotype in guillemets
     this.ctx.font = '12px -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
     this.ctx.fillStyle = isDimmed ? '#555' : '#ccc';
-    this.ctx.fillText(node.kind, x + width / 2, y + 35);
+    const kindLabel = `${node.stereotype ? `«${node.stereotype}»` : node.kind}${node.doc?.deprecated ? ' · deprecated' : ''}${node.deadCode ? ' · unused' : ''}`;
+    this.ctx.fillText(metric ? `${kindLabel} · ${metric.label}` : kindLabel, x + width / 2, y + 35);
     
     // Properties and methods
     let lineY = y + 50;
@@ -261,36 +420,75 @@ export class DiagramWidget {
       const propsToShow = node.properties.slice(0, maxLines - lineCount);
       propsToShow.forEach(prop => {
         if (lineCount >= maxLines) return;
-        this.ctx.fillText(prop, x + 8, lineY);
+        this.drawMember(prop, x + 8, lineY);
         lineY += lineHeight;
         lineCount++;
       });
     }
     
-    // Methods
+    // Hooks and consumed contexts of components
+    const componentLines = [
+      ...(node.hooks || []).map(hook => `${hook}()`),
+      ...(node.contexts || []).map(context => `«context» ${context}`)
+    ];
+    componentLines.slice(0, Math.max(0, maxLines - lineCount)).forEach(line => {
+      this.ctx.fillText(line, x + 8, lineY);
+      lineY += lineHeight;
+      lineCount++;
+    });
+    
+    // Methods, struck through when deprecated
     if (node.methods && lineCount < maxLines) {
       const methodsToShow = node.methods.slice(0, maxLines - lineCount);
-      methodsToShow.forEach(method => {
+      methodsToShow.forEach((method, i) => {
         if (lineCount >= maxLines) return;
-        this.ctx.fillText(method, x + 8, lineY);
+        this.drawMember(method, x + 8, lineY, !!node.methodDocs?.[i]?.deprecated);
         lineY += lineHeight;
         lineCount++;
       });
     }
     
     // Show truncation indicator if needed
-    const totalItems = (node.properties?.length || 0) + (node.methods?.length || 0);
+    const totalItems = (node.properties?.length || 0) + componentLines.length + (node.methods?.length || 0);
     if (totalItems > maxLines && lineCount >= maxLines) {
       this.ctx.fillStyle = isDimmed ? '#444' : '#888';
       this.ctx.textAlign = 'center';
       this.ctx.fillText(`... ${totalItems - maxLines} more`, x + width / 2, y + height - 10);
     }
     
-    if (isDimmed) {
+    if (isDimmed || node.deadCode) {
       this.ctx.globalAlpha = 1;
     }
   }
 
+  // UML notation: `{static}` members are underlined, `{abstract}` ones in italics
+  private drawMember(signature: string, x: number, y: number, deprecated = false) {
+    const text = this.memberText(signature);
+    const font = this.ctx.font;
+    if (signature.includes('{abstract} ')) this.ctx.font = `italic ${font}`;
+    
+    this.ctx.fillText(text, x, y);
+    if (signature.includes('{static} ')) this.drawTextLine(text, x, y, 2);
+    if (deprecated) this.drawTextLine(text, x, y, -4);
+    this.ctx.font = font;
+  }
+
+  private memberText(signature: string): string {
+    return signature.replace(/\{(static|abstract)\} /g, '');
+  }
+
+  // Underline (positive offset) or strike-through (negative) for text just drawn with the current font, fill and alignment
+  private drawTextLine(text: string, x: number, y: number, offsetY: number) {
+    const textWidth = this.ctx.measureText(text).width;
+    const startX = this.ctx.textAlign === 'center' ? x - textWidth / 2 : x;
+    this.ctx.strokeStyle = this.ctx.fillStyle;
+    this.ctx.lineWidth = 1;
+    this.ctx.beginPath();
+    this.ctx.moveTo(startX, y + offsetY);
+    this.ctx.lineTo(startX + textWidth, y + offsetY);
+    this.ctx.stroke();
+  }
+
   private getNodeColor(kind: string, isDimmed: boolean): string {
     const colors = {
       class: '#4f46e5',
@@ -298,13 +496,36 @@ export class DiagramWidget {
       function: '#dc2626',
       module: '#7c2d12',
       type: '#7c3aed',
-      enum: '#ea580c'
+      enum: '#ea580c',
+      variable: '#0891b2',
+      component: '#db2777',
+      table: '#9c27b0',
+      route: '#65a30d'
     };
     
     const baseColor = colors[kind as keyof typeof colors] || '#6b7280';
     return isDimmed ? this.darkenColor(baseColor, 0.5) : baseColor;
   }
 
+  // Interpolates green → amber → red
+  private getHeatColor(ratio: number): string {
+    const stops = [[34, 197, 94], [245, 158, 11], [239, 68, 68]];
+    const scaled = Math.max(0, Math.min(1, ratio)) * (stops.length - 1);
+    const index = Math.min(Math.floor(scaled), stops.length - 2);
+    const t = scaled - index;
+    const [r, g, b] = stops[index].map((channel, i) => Math.round(channel + (stops[index + 1][i] - channel) * t));
+    return `rgb(${r}, ${g}, ${b})`;
+  }
+
+  private getChangeColor(change: NonNullable<UmlNode['change']>): string {
+    const colors = {
+      added: '#22c55e',
+      modified: '#f59e0b',
+      deleted: '#ef4444'
+    };
+    return colors[change];
+  }
+
   private darkenColor(color: string, factor: number): string {
     // Simple color darkening
     const hex = color.replace('#', '');
@@ -315,7 +536,7 @@ export class DiagramWidget {
     return `rgb(${Math.floor(r * factor)}, ${Math.floor(g * factor)}, ${Math.floor(b * factor)})`;
   }
 
-  private drawEdges(edges: UmlEdge[], selectedIds: Set<string>, dimmedIds: Set<string>) {
+  private drawEdges(edges: UmlEdge[], selectedIds: Set<string>, dimmedIds: Set<string>, cycle?: UmlCycle) {
     this.ctx.strokeStyle = '#666';
     this.ctx.lineWidth = 1;
     
@@ -325,7 +546,8 @@ export class DiagramWidget {
       
       if (!sourcePos || !targetPos) return;
       
-      const isDimmed = dimmedIds.has(edge.source) && dimmedIds.has(edge.target);
+      const inCycle = !!cycle?.edgeIds.includes(edge.id);
+      const isDimmed = cycle ? !inCycle : dimmedIds.has(edge.source) && dimmedIds.has(edge.target);
       
       if (isDimmed) {
         this.ctx.globalAlpha = 0.2;
@@ -337,8 +559,25 @@ export class DiagramWidget {
       const targetX = targetPos.x + targetPos.width / 2;
       const targetY = targetPos.y;
       
-      // Draw arrow
+      // Draw arrow, colored on merged diff payloads, red where it breaks an architecture rule, thicker along a highlighted cycle
+      this.ctx.strokeStyle = inCycle ? this.cycleColor :
+        edge.violation ? this.violationColor :
+        edge.change ? this.getChangeColor(edge.change) : '#666';
+      this.ctx.lineWidth = inCycle || edge.violation ? 2 : 1;
+      if (edge.change === 'deleted') this.ctx.setLineDash([6, 4]);
       this.drawArrow(sourceX, sourceY, targetX, targetY, edge.type);
+      this.ctx.setLineDash([]);
+      this.ctx.lineWidth = 1;
+      
+      // Association multiplicity next to the target end
+      if (edge.type === 'references' && edge.multiplicity) {
+        this.drawMultiplicity(targetX, targetY, edge.multiplicity);
+      }
+      
+      // Entity relationship cardinality at both ends
+      if (edge.type === 'relation' && edge.cardinality) {
+        this.drawCardinality(sourceX, sourceY, targetX, targetY, edge.cardinality);
+      }
       
       if (isDimmed) {
         this.ctx.globalAlpha = 1;
@@ -352,11 +591,13 @@ export class DiagramWidget {
     const dy = toY - fromY;
     const angle = Math.atan2(dy, dx);
     
-    // Line
+    // Line, dashed for injected dependencies
     this.ctx.beginPath();
+    if (type === 'injects') this.ctx.setLineDash([4, 4]);
     this.ctx.moveTo(fromX, fromY);
     this.ctx.lineTo(toX, toY);
     this.ctx.stroke();
+    this.ctx.setLineDash([]);
     
     // Arrowhead
     this.ctx.beginPath();
@@ -375,6 +616,25 @@ export class DiagramWidget {
     }
   }
 
+  private drawCardinality(sourceX: number, sourceY: number, targetX: number, targetY: number, cardinality: NonNullable<UmlEdge['cardinality']>) {
+    const [sourceEnd, targetEnd] = cardinality.split(':');
+    
+    this.ctx.fillStyle = '#aaa';
+    this.ctx.font = '10px Monaco, Menlo, "Ubuntu Mono", monospace';
+    this.ctx.textAlign = 'left';
+    this.ctx.fillText(sourceEnd, sourceX + 6, sourceY + 12);
+    this.ctx.fillText(targetEnd, targetX + 6, targetY - 4);
+  }
+
+  private drawMultiplicity(x: number, y: number, multiplicity: NonNullable<UmlEdge['multiplicity']>) {
+    const notation = multiplicity === 'array' ? '0..*' : multiplicity === 'optional' ? '0..1' : '1';
+    
+    this.ctx.fillStyle = '#aaa';
+    this.ctx.font = '10px Monaco, Menlo, "Ubuntu Mono", monospace';
+    this.ctx.textAlign = 'left';
+    this.ctx.fillText(notation, x + 6, y - 4);
+  }
+
   // Mouse event handlers
   private handleMouseDown(e: MouseEvent) {
     const rect = this.canvas.getBoundingClientRect();
@@ -384,12 +644,16 @@ export class DiagramWidget {
   }
 
   private handleMouseMove(e: MouseEvent) {
-    if (!this.isDragging) return;
-    
     const rect = this.canvas.getBoundingClientRect();
     const mouseX = e.clientX - rect.left;
     const mouseY = e.clientY - rect.top;
     
+    if (!this.isDragging) {
+      this.updateHoverCard(mouseX, mouseY);
+      return;
+    }
+    this.hideHoverCard();
+    
     const deltaX = mouseX - this.lastMouseX;
     const deltaY = mouseY - this.lastMouseY;
     
@@ -440,20 +704,83 @@ export class DiagramWidget {
     const state = store.getState();
     if (!state.diagram) return;
     
-    const clickedNode = state.diagram.nodes.find(node => {
-      const pos = this.nodePositions.get(node.id);
+    const clickedNode = this.nodeAt(worldX, worldY);
+    
+    if (clickedNode) {
+      const column = this.columnAt(clickedNode, worldY);
+      if (column) {
+        this.selectColumn(clickedNode, column, e.ctrlKey || e.metaKey);
+      } else {
+        this.selectNode(clickedNode, e.ctrlKey || e.metaKey);
+      }
+    } else {
+      // Clear selection if clicking empty space
+      store.selectNode('', false);
+    }
+  }
+
+  private nodeAt(worldX: number, worldY: number): UmlNode | undefined {
+    return store.getState().diagram?.nodes.find(node => {
+      const pos = this.drawnPositions.get(node.id);
       if (!pos) return false;
       
       return worldX >= pos.x && worldX <= pos.x + pos.width &&
              worldY >= pos.y && worldY <= pos.y + pos.height;
     });
+  }
+
+  // Doc comment of the method under the cursor, else of the node itself
+  private updateHoverCard(mouseX: number, mouseY: number) {
+    const worldX = (mouseX - this.panX) / this.scale;
+    const worldY = (mouseY - this.panY) / this.scale;
+    const node = this.nodeAt(worldX, worldY);
+    if (!node) {
+      this.hideHoverCard();
+      return;
+    }
     
-    if (clickedNode) {
-      this.selectNode(clickedNode, e.ctrlKey || e.metaKey);
-    } else {
-      // Clear selection if clicking empty space
-      store.selectNode('', false);
+    const row = this.rowAt(node, worldY);
+    const componentLines = (node.hooks?.length || 0) + (node.contexts?.length || 0);
+    const methodIndex = row === undefined ? -1 : row - (node.properties?.length || 0) - componentLines;
+    const methodDoc = methodIndex >= 0 ? node.methodDocs?.[methodIndex] : undefined;
+    const title = methodDoc ? this.memberText(node.methods![methodIndex]) : node.label;
+    const doc = methodDoc || node.doc;
+    if (!doc) {
+      this.hideHoverCard();
+      return;
     }
+    
+    const card = this.container.querySelector('#diagram-hovercard') as HTMLElement;
+    if (!card) return;
+    card.replaceChildren(...this.hoverCardContent(title, doc));
+    card.style.left = `${mouseX + 12}px`;
+    card.style.top = `${mouseY + 12}px`;
+    card.classList.add('visible');
+  }
+
+  private hoverCardContent(title: string, doc: SymbolDoc): HTMLElement[] {
+    const line = (className: string, text: string) => {
+      const element = document.createElement('div');
+      element.className = className;
+      element.textContent = text;
+      return element;
+    };
+    
+    const lines = [line('hovercard-title', title)];
+    if (doc.deprecated) {
+      lines.push(line('hovercard-deprecated', doc.deprecated === true ? 'Deprecated' : `Deprecated: ${doc.deprecated}`));
+    }
+    if (doc.summary) lines.push(line('hovercard-summary', doc.summary));
+    Object.entries(doc.params || {}).forEach(([name, text]) => lines.push(line('hovercard-tag', `@param ${name}${text ? ` — ${text}` : ''}`)));
+    if (doc.returns !== undefined) lines.push(line('hovercard-tag', `@returns ${doc.returns}`));
+    Object.entries(doc.tags || {}).forEach(([name, texts]) => {
+      texts.forEach(text => lines.push(line('hovercard-tag', `@${name} ${text}`)));
+    });
+    return lines;
+  }
+
+  private hideHoverCard() {
+    this.container.querySelector('#diagram-hovercard')?.classList.remove('visible');
   }
 
   private selectNode(node: UmlNode, addToSelection: boolean) {
@@ -466,6 +793,32 @@ export class DiagramWidget {
     }
   }
 
+  // Table rows are drawn as the first member lines
+  private columnAt(node: UmlNode, worldY: number): NonNullable<UmlNode['columns']>[number] | undefined {
+    const row = this.rowAt(node, worldY);
+    return node.columns && row !== undefined ? node.columns[row] : undefined;
+  }
+
+  // Member lines are drawn 14px apart from y + 50 (see drawNode)
+  private rowAt(node: UmlNode, worldY: number): number | undefined {
+    const pos = this.drawnPositions.get(node.id);
+    if (!pos) return undefined;
+    
+    const lineHeight = 14;
+    const maxLines = Math.floor((pos.height - 55) / lineHeight);
+    const row = Math.floor((worldY - (pos.y + 50 - 11)) / lineHeight);
+    return row >= 0 && row < maxLines ? row : undefined;
+  }
+
+  private selectColumn(node: UmlNode, column: NonNullable<UmlNode['columns']>[number], addToSelection: boolean) {
+    store.selectNode(node.id, addToSelection);
+    
+    // Open the migration (or schema file) that introduced the column
+    const file = column.file || node.file;
+    store.selectFile(file);
+    wsClient.openFile(file, column.line, node.symbol);
+  }
+
   // Control methods
   private fitToScreen() {
     if (this.nodePositions.size === 0) return;
@@ -554,6 +907,16 @@ export const diagramWidgetStyles = `
     gap: 4px;
   }
 
+  .cycle-select,
+  .metric-select {
+    max-width: 220px;
+    background: #2d2d2d;
+    color: #e0e0e0;
+    border: 1px solid #555;
+    border-radius: 4px;
+    font-size: 12px;
+  }
+
   .diagram-container {
     position: relative;
     flex: 1;
@@ -587,6 +950,42 @@ export const diagramWidgetStyles = `
     display: block;
   }
 
+  .diagram-hovercard {
+    position: absolute;
+    max-width: 280px;
+    background: rgba(30, 30, 30, 0.95);
+    border: 1px solid #555;
+    border-radius: 6px;
+    padding: 8px 10px;
+    font-size: 12px;
+    pointer-events: none;
+    display: none;
+  }
+
+  .diagram-hovercard.visible {
+    display: block;
+  }
+
+  .hovercard-title {
+    font-family: Monaco, Menlo, 'Ubuntu Mono', monospace;
+    color: #fff;
+    margin-bottom: 4px;
+  }
+
+  .hovercard-deprecated {
+    color: #f59e0b;
+    margin-bottom: 4px;
+  }
+
+  .hovercard-summary {
+    white-space: pre-wrap;
+    margin-bottom: 4px;
+  }
+
+  .hovercard-tag {
+    color: #aaa;
+  }
+
   .diagram-legend h4 {
     margin: 0 0 8px 0;
     font-size: 12px;
@@ -613,4 +1012,16 @@ export const diagramWidgetStyles = `
   .legend-color.module { background: #7c2d12; }
   .legend-color.type { background: #7c3aed; }
   .legend-color.enum { background: #ea580c; }
+  .legend-color.variable { background: #0891b2; }
+  .legend-color.component { background: #db2777; }
+  .legend-color.table { background: #9c27b0; }
+  .legend-color.route { background: #65a30d; }
+  .legend-color.change-added { border: 2px solid #22c55e; }
+  .legend-color.change-modified { border: 2px solid #f59e0b; }
+  .legend-color.change-deleted { border: 2px dashed #ef4444; }
+  .legend-color.cycle { border: 2px solid #f43f5e; }
+  .legend-color.violation { height: 2px; background: #dc2626; }
+  .legend-color.dead-code { background: #4b5563; opacity: 0.6; }
+  .legend-color.deprecated { height: 2px; background: #ccc; }
+  .legend-color.metric-scale { background: linear-gradient(90deg, #22c55e, #f59e0b, #ef4444); }
 `;
\ No newline at end of file
@@ -5,7 +5,7 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import { z } from "zod";
 import WebSocket from "ws";
 import { v4 as uuidv4 } from "uuid";
-import { UmlTools, generateUmlSchema, getDirectoryTreeSchema, getFileContentsSchema, searchSymbolsSchema } from './uml/index.js';
+import { UmlTools, generateUmlSchema, getDirectoryTreeSchema, getFileContentsSchema, searchSymbolsSchema, diffUmlSchema, findCyclesSchema, findDeadCodeSchema, checkArchitectureSchema } from './uml/index.js';
 
 // Define TypeScript interfaces for Figma responses
 interface FigmaResponse {
@@ -3013,8 +3013,8 @@ const umlTools = new UmlTools();
 server.tool(
   "generate_uml",
   "Generate UML/ERD diagram from codebase analysis",
-  generateUmlSchema,
-  async (params: any) => {
+  generateUmlSchema.shape,
+  async (params) => {
     try {
       const result = await umlTools.generateUml(params);
       
@@ -3130,9 +3130,9 @@ server.tool(
 // Search Symbols Tool
 server.tool(
   "search_symbols",
-  "Search for symbols in the generated UML diagram",
-  searchSymbolsSchema,
-  async (params: any) => {
+  "Search for symbols in the generated UML diagram by name, kind or doc tag (e.g. deprecated, owner=payments)",
+  searchSymbolsSchema.shape,
+  async (params) => {
     try {
       const result = await umlTools.searchSymbols(params);
       return {
@@ -3156,6 +3156,175 @@ server.tool(
   }
 );
 
+// Diff UML Tool
+server.tool(
+  "diff_uml",
+  "Compare two UML payloads (the previous and current generate_uml run, or saved snapshots) and show the merged, diff-annotated diagram",
+  diffUmlSchema.shape,
+  async (params) => {
+    try {
+      const result = await umlTools.diffUml(params);
+
+      // Send the merged payload via WebSocket if connected
+      if (JSON.parse(result).success && ws && ws.readyState === WebSocket.OPEN && currentChannel) {
+        const payload = umlTools.getLastDiffPayload();
+        if (payload) {
+          ws.send(JSON.stringify({
+            type: 'uml:payload',
+            channel: currentChannel,
+            id: uuidv4(),
+            payload: payload
+          }));
+        }
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: result
+          }
+        ]
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error diffing UML: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ]
+      };
+    }
+  }
+);
+
+// Find Cycles Tool
+server.tool(
+  "find_cycles",
+  "List circular dependencies in the last generated UML diagram: import cycles between files and cycles between symbols",
+  findCyclesSchema.shape,
+  async (params) => {
+    try {
+      const result = await umlTools.findCycles(params);
+
+      // Ask the plugin to highlight the chosen cycle
+      if (params.highlightCycleId && JSON.parse(result).success && ws && ws.readyState === WebSocket.OPEN && currentChannel) {
+        ws.send(JSON.stringify({
+          type: 'uml:cycle:select',
+          channel: currentChannel,
+          id: uuidv4(),
+          payload: { cycleId: params.highlightCycleId }
+        }));
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: result
+          }
+        ]
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error finding cycles: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ]
+      };
+    }
+  }
+);
+
+// Find Dead Code Tool
+server.tool(
+  "find_dead_code",
+  "Find exports nothing imports, private members never used and files unreachable from the entry points; the diagram grays out dead nodes",
+  findDeadCodeSchema.shape,
+  async (params) => {
+    try {
+      const result = await umlTools.findDeadCode(params);
+
+      // Send the flagged diagram via WebSocket if connected
+      if (JSON.parse(result).success && ws && ws.readyState === WebSocket.OPEN && currentChannel) {
+        const payload = umlTools.getLastReportPayload();
+        if (payload) {
+          ws.send(JSON.stringify({
+            type: 'uml:payload',
+            channel: currentChannel,
+            id: uuidv4(),
+            payload: payload
+          }));
+        }
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: result
+          }
+        ]
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error finding dead code: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ]
+      };
+    }
+  }
+);
+
+// Check Architecture Tool
+server.tool(
+  "check_architecture",
+  "Check imports and calls against the layering rules in the architecture config and list violations with file and line; the diagram draws violating edges in red",
+  checkArchitectureSchema.shape,
+  async (params) => {
+    try {
+      const result = await umlTools.checkArchitecture(params);
+
+      // Send the flagged diagram via WebSocket if connected
+      if (JSON.parse(result).success && ws && ws.readyState === WebSocket.OPEN && currentChannel) {
+        const payload = umlTools.getLastReportPayload();
+        if (payload) {
+          ws.send(JSON.stringify({
+            type: 'uml:payload',
+            channel: currentChannel,
+            id: uuidv4(),
+            payload: payload
+          }));
+        }
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: result
+          }
+        ]
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error checking architecture: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ]
+      };
+    }
+  }
+);
+
 // Start the server
 async function main() {
   try {
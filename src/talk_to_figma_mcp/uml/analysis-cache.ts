@@ -0,0 +1,92 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { FileAnalysis } from './types.js';
+
+// Bump whenever the per-file analysis output changes shape or content
+export const CACHE_VERSION = 17;
+
+export interface CachedFileAnalysis extends FileAnalysis {
+  hash: string;
+}
+
+interface CacheFile {
+  version: number;
+  rootPath: string;
+  configKey: string;
+  files: Record<string, CachedFileAnalysis>;
+}
+
+/**
+ * Persistent per-file analysis results keyed by file path and content hash.
+ *
+ * Entries hold the output of the per-file pass before import resolution, so
+ * import edges are always resolved against the current file set. Symbol
+ * targets (`toFile`/`toSymbol`) are resolved by the type checker during that
+ * pass, so an entry is only reused while no file it depends on has changed;
+ * the caller re-analyzes the rest. The whole cache is dropped when the
+ * analyzer version or the root compiler options (`configKey`) change, since
+ * both affect what the checker resolves.
+ */
+export class AnalysisCache {
+  private cachePath: string;
+  private data: CacheFile;
+  private dirty = false;
+
+  private constructor(cachePath: string, rootPath: string, configKey: string, data?: CacheFile) {
+    this.cachePath = cachePath;
+    const valid = data && data.version === CACHE_VERSION && data.rootPath === rootPath && data.configKey === configKey;
+    this.data = valid ? data : { version: CACHE_VERSION, rootPath, configKey, files: {} };
+    this.dirty = !valid;
+  }
+
+  static async load(rootPath: string, configKey: string, cacheDir: string = AnalysisCache.defaultDirectory()): Promise<AnalysisCache> {
+    const cachePath = path.join(cacheDir, `${AnalysisCache.hash(rootPath)}.json`);
+
+    try {
+      const raw = await fs.readFile(cachePath, 'utf-8');
+      return new AnalysisCache(cachePath, rootPath, configKey, JSON.parse(raw));
+    } catch {
+      // Missing or unreadable cache: start empty
+      return new AnalysisCache(cachePath, rootPath, configKey);
+    }
+  }
+
+  static defaultDirectory(): string {
+    const base = process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache');
+    return path.join(base, 'talk-to-figma-mcp', 'uml');
+  }
+
+  static hash(content: string): string {
+    return createHash('sha1').update(content).digest('hex');
+  }
+
+  get(filePath: string, hash: string): CachedFileAnalysis | undefined {
+    const entry = this.data.files[filePath];
+    return entry && entry.hash === hash ? entry : undefined;
+  }
+
+  set(filePath: string, entry: CachedFileAnalysis): void {
+    this.data.files[filePath] = entry;
+    this.dirty = true;
+  }
+
+  delete(filePath: string): void {
+    if (this.data.files[filePath]) {
+      delete this.data.files[filePath];
+      this.dirty = true;
+    }
+  }
+
+  filePaths(): string[] {
+    return Object.keys(this.data.files);
+  }
+
+  async save(): Promise<void> {
+    if (!this.dirty) return;
+    await fs.mkdir(path.dirname(this.cachePath), { recursive: true });
+    await fs.writeFile(this.cachePath, JSON.stringify(this.data), 'utf-8');
+    this.dirty = false;
+  }
+}
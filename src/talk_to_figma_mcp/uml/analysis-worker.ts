@@ -0,0 +1,8 @@
+import { parentPort, workerData } from 'worker_threads';
+import { CodeIntake } from './code-intake.js';
+import { PartitionTask } from './worker-pool.js';
+
+// Worker entry for AnalysisWorkerPool: analyze one partition and post the result back
+const task = workerData as PartitionTask;
+const result = new CodeIntake().analyzePartition(task.contents, task.targets, task.compilerOptions);
+parentPort?.postMessage(result);
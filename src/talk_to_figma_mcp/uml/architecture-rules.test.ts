@@ -0,0 +1,65 @@
+import { describe, expect, test } from 'bun:test';
+import { ArchitectureRules } from './architecture-rules.js';
+import { AnalysisResult, ArchitectureConfig, Dependency } from './types.js';
+
+const ROOT = '/repo';
+const CONFIG: ArchitectureConfig = {
+  layers: {
+    ui: ['src/ui/'],
+    domain: ['src/domain/**'],
+    infra: ['src/infra/'],
+    shared: ['src/shared/']
+  },
+  rules: ['ui -> domain -> infra', 'shared !-> ui']
+};
+
+const importOf = (from: string, to: string, line = 1): Dependency =>
+  ({ from: `${ROOT}/${from}`, to: `${ROOT}/${to}`, kind: 'import', line });
+
+const check = (dependencies: Dependency[], config = CONFIG) =>
+  new ArchitectureRules(ROOT, config).check({ symbols: [], dependencies, files: [], errors: [] } as AnalysisResult);
+
+describe('ArchitectureRules', () => {
+  test('a chain lets each layer depend on the ones after it only', () => {
+    const violations = check([
+      importOf('src/ui/page.ts', 'src/domain/user.ts'),
+      importOf('src/ui/page.ts', 'src/infra/db.ts'),
+      importOf('src/domain/user.ts', 'src/infra/db.ts'),
+      importOf('src/infra/db.ts', 'src/domain/user.ts', 7),
+      importOf('src/domain/user.ts', 'src/ui/page.ts', 9)
+    ]);
+
+    expect(violations.map(v => `${v.fromLayer} -> ${v.toLayer} @${v.line} (${v.rule})`)).toEqual([
+      'infra -> domain @7 (ui -> domain -> infra)',
+      'domain -> ui @9 (ui -> domain -> infra)'
+    ]);
+  });
+
+  test('a !-> rule forbids one direction, and a chain confines the layers it names', () => {
+    const violations = check([
+      importOf('src/shared/format.ts', 'src/ui/page.ts'),
+      importOf('src/shared/format.ts', 'src/domain/user.ts'),
+      importOf('src/ui/page.ts', 'src/shared/format.ts')
+    ]);
+
+    expect(violations.map(v => `${v.fromLayer} -> ${v.toLayer} (${v.rule})`)).toEqual([
+      'shared -> ui (shared !-> ui)',
+      'ui -> shared (ui -> domain -> infra)'
+    ]);
+  });
+
+  test('ignores same-layer, unlayered and unresolved dependencies', () => {
+    expect(check([
+      importOf('src/ui/a.ts', 'src/ui/b.ts'),
+      importOf('scripts/seed.ts', 'src/ui/page.ts'),
+      { from: `${ROOT}/src/infra/db.ts`, to: 'pg', kind: 'import' },
+      { ...importOf('src/infra/db.ts', 'src/ui/page.ts'), kind: 'references' }
+    ])).toEqual([]);
+  });
+
+  test('rejects malformed rules', () => {
+    expect(() => new ArchitectureRules(ROOT, { ...CONFIG, rules: ['ui domain'] })).toThrow('has no "->" or "!->"');
+    expect(() => new ArchitectureRules(ROOT, { ...CONFIG, rules: ['ui -> api'] })).toThrow('unknown layer "api"');
+    expect(() => new ArchitectureRules(ROOT, { layers: CONFIG.layers } as ArchitectureConfig)).toThrow('"rules" array');
+  });
+});
@@ -0,0 +1,136 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { GlobFilter } from './glob-filter.js';
+import { AnalysisResult, ArchitectureConfig, ArchitectureViolation, Dependency } from './types.js';
+
+// Looked up in the analyzed root when no config path is given
+export const ARCHITECTURE_CONFIG_FILE = '.uml-architecture.json';
+
+// Dependencies the rules apply to
+const CHECKED_KINDS = ['import', 'calls'];
+
+/**
+ * Layering rules over the dependency list of an analysis.
+ *
+ * Layers are named sets of globs relative to the root (first match wins).
+ * A rule `ui -> domain -> infra` lets each layer depend on the layers after
+ * it, and confines the layers it names to that: `infra` may then not depend
+ * on `ui` or `domain`. A rule `infra !-> ui` forbids one direction outright.
+ * Dependencies within a layer, or touching files outside every layer, are
+ * not checked unless a `!->` rule names them.
+ */
+export class ArchitectureRules {
+  private layers: Array<{ name: string; filter: GlobFilter }>;
+  // Layer to the layers it may depend on, and the chain that said so
+  private allowed = new Map<string, { targets: Set<string>; rule: string }>();
+  private forbidden = new Map<string, string>();
+
+  constructor(rootPath: string, config: ArchitectureConfig) {
+    if (!config || typeof config.layers !== 'object' || !Array.isArray(config.rules)) {
+      throw new Error('Architecture config needs a "layers" object and a "rules" array');
+    }
+
+    this.layers = Object.entries(config.layers).map(([name, patterns]) => ({
+      name,
+      filter: new GlobFilter(rootPath, Array.isArray(patterns) ? patterns : [patterns])
+    }));
+    config.rules.forEach(rule => this.addRule(rule));
+  }
+
+  /**
+   * Reads the rules from `configPath` (relative to `rootPath`), or from
+   * `.uml-architecture.json` in the root. Returns null when the default
+   * file does not exist; an explicit path that cannot be read is an error.
+   */
+  static async load(rootPath: string, configPath?: string): Promise<ArchitectureRules | null> {
+    const file = path.resolve(rootPath, configPath || ARCHITECTURE_CONFIG_FILE);
+    let content: string;
+    try {
+      content = await fs.readFile(file, 'utf-8');
+    } catch (error) {
+      if (!configPath && (error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw new Error(`Cannot read architecture config ${file}: ${error}`);
+    }
+
+    try {
+      return new ArchitectureRules(rootPath, JSON.parse(content));
+    } catch (error) {
+      throw new Error(`Invalid architecture config ${file}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  check(result: AnalysisResult): ArchitectureViolation[] {
+    const violations: ArchitectureViolation[] = [];
+
+    result.dependencies.forEach(dep => {
+      if (!CHECKED_KINDS.includes(dep.kind)) return;
+      const target = dep.toFile || dep.to;
+      if (!path.isAbsolute(target) || target === dep.from) return;
+
+      const fromLayer = this.layerOf(dep.from);
+      const toLayer = this.layerOf(target);
+      if (!fromLayer || !toLayer || fromLayer === toLayer) return;
+
+      const rule = this.brokenRule(fromLayer, toLayer);
+      if (!rule) return;
+
+      violations.push({
+        file: dep.from,
+        line: dep.line,
+        kind: dep.kind,
+        fromSymbol: dep.fromSymbol,
+        target,
+        toSymbol: dep.toSymbol,
+        fromLayer,
+        toLayer,
+        rule
+      });
+    });
+
+    return violations;
+  }
+
+  // Identifies the dependency a violation was reported for, to find its edge
+  static dependencyKey(dep: Pick<Dependency, 'kind' | 'from' | 'fromSymbol' | 'toSymbol' | 'line'> & { target: string }): string {
+    return [dep.kind, dep.from, dep.fromSymbol || '', dep.target, dep.toSymbol || '', dep.line ?? ''].join('|');
+  }
+
+  private addRule(rule: string): void {
+    if (typeof rule !== 'string') throw new Error(`Rule ${JSON.stringify(rule)} is not a string`);
+
+    const forbidden = rule.split('!->').map(part => part.trim());
+    if (forbidden.length === 2) {
+      forbidden.forEach(layer => this.assertLayer(layer, rule));
+      this.forbidden.set(`${forbidden[0]}|${forbidden[1]}`, rule);
+      return;
+    }
+
+    const chain = rule.split('->').map(part => part.trim());
+    if (chain.length < 2) throw new Error(`Rule "${rule}" has no "->" or "!->"`);
+    chain.forEach(layer => this.assertLayer(layer, rule));
+
+    chain.forEach((layer, i) => {
+      const entry = this.allowed.get(layer) || { targets: new Set<string>(), rule };
+      chain.slice(i + 1).forEach(target => entry.targets.add(target));
+      this.allowed.set(layer, entry);
+    });
+  }
+
+  private assertLayer(layer: string, rule: string): void {
+    if (!this.layers.some(l => l.name === layer)) {
+      throw new Error(`Rule "${rule}" names unknown layer "${layer}"`);
+    }
+  }
+
+  private brokenRule(fromLayer: string, toLayer: string): string | undefined {
+    const forbidden = this.forbidden.get(`${fromLayer}|${toLayer}`);
+    if (forbidden) return forbidden;
+
+    const allowed = this.allowed.get(fromLayer);
+    return allowed && !allowed.targets.has(toLayer) ? allowed.rule : undefined;
+  }
+
+  private layerOf(filePath: string): string | undefined {
+    return this.layers.find(layer => layer.filter.evaluateFile(layer.filter.relative(filePath)).included)?.name;
+  }
+}
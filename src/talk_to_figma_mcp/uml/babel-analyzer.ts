@@ -0,0 +1,262 @@
+import { parse } from '@babel/parser';
+import traverse, { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { CodeSymbol, Dependency } from './types.js';
+
+// @babel/traverse is published as CommonJS; depending on the loader the function sits on `default`
+function commonJsDefault<T>(module: T): T {
+  return (module as T & { default?: T }).default || module;
+}
+
+const traverseAst = commonJsDefault(traverse);
+
+export const BABEL_EXTENSIONS = ['.js', '.jsx', '.cjs', '.mjs'];
+
+export interface BabelAnalysis {
+  symbols: CodeSymbol[];
+  dependencies: Dependency[];
+}
+
+/**
+ * Syntax-only analysis for plain JavaScript that the ts-morph checker cannot
+ * type: CommonJS `require`/`module.exports`, constructor functions with
+ * prototype-assigned methods and `util.inherits`/`Object.create` inheritance.
+ */
+export class BabelAnalyzer {
+  analyze(filePath: string, content: string): BabelAnalysis {
+    const ast = parse(content, {
+      sourceType: 'unambiguous',
+      errorRecovery: true,
+      allowReturnOutsideFunction: true,
+      plugins: ['jsx', 'classProperties', 'classPrivateProperties', 'dynamicImport', 'optionalChaining']
+    });
+
+    const symbols = new Map<string, CodeSymbol>();
+    const dependencies: Dependency[] = [];
+    const exportsByLocal = new Map<string, string[]>();
+    const prototypeInheritance = new Set<string>();
+
+    const addExport = (local: string, exportedAs: string) => {
+      const names = exportsByLocal.get(local) || [];
+      names.push(exportedAs);
+      exportsByLocal.set(local, names);
+    };
+
+    const addFunction = (name: string, fn: t.Function, line: number, column: number) => {
+      symbols.set(name, {
+        name,
+        kind: 'function',
+        file: filePath,
+        line,
+        column,
+        methods: [{
+          name,
+          parameters: fn.params.map(p => this.paramName(p)),
+          line
+        }]
+      });
+    };
+
+    const addClass = (name: string, cls: t.Class, line: number, column: number) => {
+      symbols.set(name, {
+        name,
+        kind: 'class',
+        file: filePath,
+        line,
+        column,
+        properties: cls.body.body
+          .filter((member): member is t.ClassProperty => t.isClassProperty(member))
+          .map(member => ({ name: this.keyName(member.key), line: member.loc?.start.line || line })),
+        methods: cls.body.body
+          .filter((member): member is t.ClassMethod => t.isClassMethod(member))
+          .map(member => ({
+            name: this.keyName(member.key),
+            parameters: member.params.map(p => this.paramName(p as t.Node)),
+            line: member.loc?.start.line || line
+          })),
+        extends: cls.superClass ? this.expressionName(cls.superClass) : undefined
+      });
+    };
+
+    // Promotes a constructor function to a class once prototype members are assigned
+    const asClass = (name: string): CodeSymbol | undefined => {
+      const symbol = symbols.get(name);
+      if (!symbol) return undefined;
+      if (symbol.kind === 'function') {
+        symbol.kind = 'class';
+        symbol.methods = (symbol.methods || []).map(method => ({ ...method, name: 'constructor' }));
+      }
+      symbol.methods = symbol.methods || [];
+      return symbol;
+    };
+
+    traverseAst(ast, {
+      ClassDeclaration: (nodePath: NodePath<t.ClassDeclaration>) => {
+        const node = nodePath.node;
+        if (node.id && this.isTopLevel(nodePath)) {
+          addClass(node.id.name, node, node.loc?.start.line || 1, node.start || 0);
+        }
+      },
+
+      FunctionDeclaration: (nodePath: NodePath<t.FunctionDeclaration>) => {
+        const node = nodePath.node;
+        if (node.id && this.isTopLevel(nodePath)) {
+          addFunction(node.id.name, node, node.loc?.start.line || 1, node.start || 0);
+        }
+      },
+
+      VariableDeclarator: (nodePath: NodePath<t.VariableDeclarator>) => {
+        const node = nodePath.node;
+        if (!t.isIdentifier(node.id) || !node.init) return;
+        if (!this.isTopLevel(nodePath.parentPath)) return;
+
+        const line = node.loc?.start.line || 1;
+        if (t.isFunctionExpression(node.init) || t.isArrowFunctionExpression(node.init)) {
+          addFunction(node.id.name, node.init, line, node.start || 0);
+        } else if (t.isClassExpression(node.init)) {
+          addClass(node.id.name, node.init, line, node.start || 0);
+        }
+      },
+
+      CallExpression: (nodePath: NodePath<t.CallExpression>) => {
+        const node = nodePath.node;
+
+        // require('./module'), resolved together with the ESM imports
+        if (t.isIdentifier(node.callee, { name: 'require' }) && t.isStringLiteral(node.arguments[0])) {
+          const specifier = node.arguments[0].value;
+          dependencies.push({
+            from: filePath,
+            to: specifier,
+            kind: 'import',
+            specifier,
+            line: node.loc?.start.line
+          });
+          return;
+        }
+
+        // util.inherits(Child, Parent) / inherits(Child, Parent)
+        const calleeName = this.expressionName(node.callee);
+        if ((calleeName === 'util.inherits' || calleeName === 'inherits') &&
+            t.isIdentifier(node.arguments[0]) && t.isIdentifier(node.arguments[1])) {
+          const symbol = asClass(node.arguments[0].name);
+          if (symbol) {
+            symbol.extends = node.arguments[1].name;
+            prototypeInheritance.add(symbol.name);
+          }
+        }
+      },
+
+      AssignmentExpression: (nodePath: NodePath<t.AssignmentExpression>) => {
+        const node = nodePath.node;
+        const target = this.expressionName(node.left);
+        if (!target) return;
+
+        // module.exports = Foo / module.exports = { a, b: c }
+        if (target === 'module.exports') {
+          if (t.isIdentifier(node.right)) {
+            addExport(node.right.name, 'module.exports');
+          } else if (t.isObjectExpression(node.right)) {
+            node.right.properties.forEach(prop => {
+              if (t.isObjectProperty(prop) && t.isIdentifier(prop.value)) {
+                addExport(prop.value.name, `module.exports.${this.keyName(prop.key)}`);
+              }
+            });
+          } else if (t.isClassExpression(node.right) && node.right.id) {
+            addClass(node.right.id.name, node.right, node.loc?.start.line || 1, node.start || 0);
+            addExport(node.right.id.name, 'module.exports');
+          }
+          return;
+        }
+
+        // exports.foo = ... / module.exports.foo = ...
+        const exportMatch = target.match(/^(?:module\.)?exports\.(\w+)$/);
+        if (exportMatch) {
+          const exportedAs = `module.exports.${exportMatch[1]}`;
+          if (t.isIdentifier(node.right)) {
+            addExport(node.right.name, exportedAs);
+          } else if (t.isFunctionExpression(node.right) || t.isArrowFunctionExpression(node.right)) {
+            addFunction(exportMatch[1], node.right, node.loc?.start.line || 1, node.start || 0);
+            addExport(exportMatch[1], exportedAs);
+          }
+          return;
+        }
+
+        // Foo.prototype = Object.create(Base.prototype)
+        const prototypeMatch = target.match(/^(\w+)\.prototype$/);
+        if (prototypeMatch && t.isCallExpression(node.right) &&
+            this.expressionName(node.right.callee) === 'Object.create') {
+          const base = this.expressionName(node.right.arguments[0] as t.Expression)?.replace(/\.prototype$/, '');
+          const symbol = asClass(prototypeMatch[1]);
+          if (symbol && base) {
+            symbol.extends = base;
+            prototypeInheritance.add(symbol.name);
+          }
+          return;
+        }
+
+        // Foo.prototype.bar = function () {}
+        const methodMatch = target.match(/^(\w+)\.prototype\.(\w+)$/);
+        if (methodMatch && (t.isFunctionExpression(node.right) || t.isArrowFunctionExpression(node.right))) {
+          const symbol = asClass(methodMatch[1]);
+          if (symbol) {
+            symbol.methods!.push({
+              name: methodMatch[2],
+              parameters: node.right.params.map(p => this.paramName(p)),
+              line: node.loc?.start.line || symbol.line
+            });
+          }
+        }
+      }
+    });
+
+    exportsByLocal.forEach((names, local) => {
+      const symbol = symbols.get(local);
+      if (symbol) symbol.exports = names;
+    });
+
+    // ES class heritage is already reported by the ts-morph pass
+    prototypeInheritance.forEach(name => {
+      const symbol = symbols.get(name);
+      if (symbol?.extends) {
+        dependencies.push({ from: filePath, to: symbol.extends, kind: 'extends', fromSymbol: name, line: symbol.line });
+      }
+    });
+
+    return { symbols: Array.from(symbols.values()), dependencies };
+  }
+
+  private isTopLevel(nodePath: NodePath | null): boolean {
+    const parent = nodePath?.parentPath;
+    if (!parent) return false;
+    if (parent.isProgram()) return true;
+    // `export class Foo {}` / `export const foo = ...`
+    return parent.isExportNamedDeclaration() || parent.isExportDefaultDeclaration() ?
+      !!parent.parentPath?.isProgram() : false;
+  }
+
+  private expressionName(node: t.Node | null | undefined): string | undefined {
+    if (!node) return undefined;
+    if (t.isIdentifier(node)) return node.name;
+    if (t.isMemberExpression(node) && !node.computed) {
+      const object = this.expressionName(node.object);
+      const property = t.isIdentifier(node.property) ? node.property.name : undefined;
+      return object && property ? `${object}.${property}` : undefined;
+    }
+    return undefined;
+  }
+
+  private keyName(key: t.Node): string {
+    if (t.isIdentifier(key)) return key.name;
+    if (t.isStringLiteral(key) || t.isNumericLiteral(key)) return String(key.value);
+    if (t.isPrivateName(key)) return `#${key.id.name}`;
+    return 'computed';
+  }
+
+  private paramName(param: t.Node): string {
+    if (t.isIdentifier(param)) return param.name;
+    if (t.isAssignmentPattern(param)) return this.paramName(param.left);
+    if (t.isRestElement(param)) return `...${this.paramName(param.argument)}`;
+    if (t.isTSParameterProperty(param)) return this.paramName(param.parameter);
+    return 'destructured';
+  }
+}
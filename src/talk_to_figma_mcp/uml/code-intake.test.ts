@@ -0,0 +1,49 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CodeIntake } from './code-intake.js';
+
+describe('CodeIntake analysis cache', () => {
+  const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'code-intake-'));
+  const root = path.join(tmp, 'repo');
+  const cacheDir = path.join(tmp, 'cache');
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+    fs.writeFileSync(path.join(root, file), content);
+  };
+  afterAll(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+  write('src/domain/config.ts', 'export class Base<T> { value?: T; }\nexport class Settings {}\n');
+  write('src/ui/config.ts', "import { Base } from '../domain/config';\nexport class Config extends Base<string> {}\n");
+  write('src/ui/view.ts', 'export class View {}\n');
+  write('src/ui/panel.ts', "import { View } from './view';\nexport class Panel extends View {}\n");
+
+  const analyze = (useCache = true) => new CodeIntake().analyzeDirectory(root, 100, { useCache, cacheDir });
+  const extendsEdges = (result: Awaited<ReturnType<typeof analyze>>) => result.dependencies
+    .filter(dep => dep.kind === 'extends')
+    .map(dep => `${dep.fromSymbol} -> ${path.relative(root, dep.toFile!)}:${dep.toSymbol}`)
+    .sort();
+
+  test('re-analyzes cached files whose resolved targets moved to another file', async () => {
+    expect((await analyze()).cacheStats).toMatchObject({ hits: 0, misses: 4 });
+
+    // Move Base out and re-export it: only the files depending on the changed one are redone
+    write('src/domain/base.ts', 'export class Base<T> { value?: T; }\n');
+    write('src/domain/config.ts', "export { Base } from './base';\nexport class Settings {}\n");
+    const cached = await analyze();
+
+    expect(cached.cacheStats).toMatchObject({ hits: 2, misses: 3 });
+    expect(extendsEdges(cached)).toEqual(['Config -> src/domain/base.ts:Base', 'Panel -> src/ui/view.ts:View']);
+    expect(extendsEdges(cached)).toEqual(extendsEdges(await analyze(false)));
+  });
+
+  test('re-analyzes cached files depending on a deleted file', async () => {
+    fs.unlinkSync(path.join(root, 'src/ui/view.ts'));
+    const result = await analyze();
+
+    expect(result.cacheStats).toMatchObject({ hits: 3, misses: 1, evicted: 1 });
+    expect(extendsEdges(result)).toEqual(['Config -> src/domain/base.ts:Base']);
+    expect(result.unresolvedSymbols!.map(entry => `${entry.symbol} ${entry.target}`)).toEqual(['Panel View']);
+  });
+});
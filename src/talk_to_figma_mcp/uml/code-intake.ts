@@ -1,16 +1,105 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { Project, SourceFile, SyntaxKind, Node } from 'ts-morph';
-import { parse } from '@babel/parser';
-import traverse from '@babel/traverse';
-import * as t from '@babel/types';
-import { DirNode, CodeSymbol, AnalysisResult } from './types.js';
+import {
+  Project,
+  SourceFile,
+  SyntaxKind,
+  Node,
+  ClassDeclaration,
+  InterfaceDeclaration,
+  EnumDeclaration,
+  TypeAliasDeclaration,
+  PropertyDeclaration,
+  PropertySignature,
+  ParameterDeclaration,
+  PropertyAssignment,
+  VariableDeclaration,
+  ExpressionWithTypeArguments,
+  Scope,
+  TypeParameterDeclaration,
+  ts
+} from 'ts-morph';
+import { DirNode, CodeSymbol, AnalysisResult, AnalyzeOptions, Dependency, FilterStats, UnresolvedImport, UnresolvedSymbol, CacheStats, FileAnalysis, PartitionResult, ChangeStatus, DeadCodeReport, SymbolDoc, SymbolProperty, SymbolMethod, MemberVisibility, TypeParameter } from './types.js';
+import { GlobFilter } from './glob-filter.js';
+import { BabelAnalyzer, BABEL_EXTENSIONS } from './babel-analyzer.js';
+import { ReactAnalyzer, REACT_EXTENSIONS } from './react-analyzer.js';
+import { OrmAnalyzer } from './orm-analyzer.js';
+import { DecoratorAnalyzer } from './decorator-analyzer.js';
+import { RouteAnalyzer } from './route-analyzer.js';
+import { LanguageAnalyzer } from './language-analyzer.js';
+import { PythonAnalyzer } from './python-analyzer.js';
+import { PrismaAnalyzer } from './prisma-analyzer.js';
+import { SqlMigrationAnalyzer, SQL_EXTENSIONS } from './sql-migration-analyzer.js';
+import { ModuleResolver, ResolvedModule } from './module-resolver.js';
+import { AnalysisCache, CachedFileAnalysis } from './analysis-cache.js';
+import { AnalysisWorkerPool } from './worker-pool.js';
+import { GitDiff } from './git-diff.js';
+import { DeadCodeAnalyzer } from './dead-code-analyzer.js';
 
-const SUPPORTED_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mts', '.cts'];
+interface CallableRef {
+  file: string;
+  symbol: string;
+  member?: string;
+  // Declared in lib or package typings rather than analyzed source
+  external?: boolean;
+}
+
+type TypedMember = PropertyDeclaration | PropertySignature | ParameterDeclaration;
+type Multiplicity = NonNullable<Dependency['multiplicity']>;
+
+const MAX_VARIABLE_MEMBERS = 30;
+const COLLECTION_TYPES = ['Array', 'ReadonlyArray', 'Set', 'ReadonlySet', 'Map', 'ReadonlyMap', 'Record'];
+// Branch points counted by cyclomatic complexity
+const DECISION_KINDS = [
+  SyntaxKind.IfStatement,
+  SyntaxKind.ConditionalExpression,
+  SyntaxKind.ForStatement,
+  SyntaxKind.ForInStatement,
+  SyntaxKind.ForOfStatement,
+  SyntaxKind.WhileStatement,
+  SyntaxKind.DoStatement,
+  SyntaxKind.CaseClause,
+  SyntaxKind.CatchClause
+];
+const LOGICAL_OPERATORS = [
+  SyntaxKind.AmpersandAmpersandToken,
+  SyntaxKind.BarBarToken,
+  SyntaxKind.QuestionQuestionToken,
+  SyntaxKind.AmpersandAmpersandEqualsToken,
+  SyntaxKind.BarBarEqualsToken,
+  SyntaxKind.QuestionQuestionEqualsToken
+];
+const VISIBILITIES: Record<Scope, MemberVisibility> = {
+  [Scope.Public]: 'public',
+  [Scope.Protected]: 'protected',
+  [Scope.Private]: 'private'
+};
+
+const SUPPORTED_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mts', '.cts', '.cjs', '.mjs'];
 const IGNORE_PATTERNS = ['node_modules', '.git', 'dist', 'build', '.next', 'coverage'];
+// `.sql` files below one of these are migrations, e.g. `db/migrations/001_init.sql` or Prisma's
+// `prisma/migrations/20240101_init/migration.sql`; seeds and queries elsewhere are not analyzed
+const MIGRATION_DIRECTORIES = ['migrations', 'migration', 'migrate'];
+// Entry files assumed when none are configured, besides what package.json points at.
+// Test files next to the code count; `__tests__` and other `__` directories are never walked
+const DEFAULT_ENTRY_PATTERNS = [
+  '/index.*', '/src/index.*', 'main.*', '/src/app.*', '/src/server.*', '/src/cli.*', '__main__.py', 'manage.py',
+  '*.config.*', '*.test.*', '*.spec.*',
+  '**/pages/**', '**/app/**/page.*', '**/app/**/layout.*', '**/app/**/route.*'
+];
 
 export class CodeIntake {
   private project: Project;
+  private babelAnalyzer = new BabelAnalyzer();
+  private reactAnalyzer = new ReactAnalyzer();
+  private ormAnalyzer = new OrmAnalyzer();
+  private decoratorAnalyzer = new DecoratorAnalyzer();
+  private routeAnalyzer = new RouteAnalyzer();
+  private migrationAnalyzer = new SqlMigrationAnalyzer();
+  private deadCodeAnalyzer = new DeadCodeAnalyzer();
+  private workerPool = new AnalysisWorkerPool();
+  // Languages outside the ts-morph project, looked up by file extension
+  private languageAnalyzers: LanguageAnalyzer[] = [new PythonAnalyzer(), new PrismaAnalyzer()];
   
   constructor() {
     this.project = new Project({
@@ -25,50 +114,718 @@ export class CodeIntake {
     });
   }
 
-  async analyzeDirectory(rootPath: string, maxFiles: number = 500): Promise<AnalysisResult> {
+  registerLanguageAnalyzer(analyzer: LanguageAnalyzer): void {
+    this.languageAnalyzers = this.languageAnalyzers.filter(existing => existing.language !== analyzer.language);
+    this.languageAnalyzers.push(analyzer);
+  }
+
+  async analyzeDirectory(rootPath: string, maxFiles: number = 500, options: AnalyzeOptions = {}): Promise<AnalysisResult> {
     const symbols: CodeSymbol[] = [];
-    const dependencies: Array<{from: string; to: string; kind: string}> = [];
+    const dependencies: Dependency[] = [];
     const files: string[] = [];
     const errors: Array<{file: string; message: string}> = [];
+    const unresolvedImports: UnresolvedImport[] = [];
+    const unresolvedSymbols: UnresolvedSymbol[] = [];
+    const filter = new GlobFilter(rootPath, options.includePatterns, options.excludePatterns);
+    const filterStats = filter.isEmpty() ? undefined : filter.createStats();
+    const resolver = new ModuleResolver();
 
     try {
-      const allFiles = await this.findSourceFiles(rootPath, maxFiles);
+      // A scoped analysis walks the whole tree so `maxFiles` limits the scope rather than the walk
+      const walkedFiles = await this.findSourceFiles(rootPath, options.onlyFiles ? Infinity : maxFiles, filter, filterStats);
+      const allFiles = options.onlyFiles ?
+        (await this.scopeFiles(walkedFiles, options.onlyFiles, !!options.includeNeighbors, resolver, rootPath)).slice(0, maxFiles) :
+        walkedFiles;
       files.push(...allFiles);
 
-      // Add files to ts-morph project
+      // Let the type checker follow the same aliases as the import edges
+      const { options: rootOptions } = resolver.getConfig(rootPath, true);
+      this.project.compilerOptions.set({
+        baseUrl: rootOptions.baseUrl,
+        paths: rootOptions.paths,
+        pathsBasePath: rootOptions.pathsBasePath,
+        module: rootOptions.module,
+        moduleResolution: rootOptions.moduleResolution
+      });
+
+      const cache = options.useCache === false ? null :
+        await AnalysisCache.load(rootPath, JSON.stringify(rootOptions), options.cacheDir);
+      const cacheStats: CacheStats = { enabled: !!cache, hits: 0, misses: 0, evicted: 0 };
+
+      // Read every file; unchanged ones come from the cache
+      const contents = new Map<string, string>();
+      const fileResults = new Map<string, FileAnalysis>();
+      const changedFiles: Array<{filePath: string; hash: string}> = [];
       for (const filePath of allFiles) {
         try {
           const content = await fs.readFile(filePath, 'utf-8');
-          this.project.createSourceFile(filePath, content, { overwrite: true });
+          contents.set(filePath, content);
+          if (this.isMigration(filePath)) continue;
+
+          const hash = AnalysisCache.hash(content);
+          const cached = cache?.get(filePath, hash);
+
+          if (cached) {
+            cacheStats.hits++;
+            fileResults.set(filePath, cached);
+          } else {
+            cacheStats.misses++;
+            changedFiles.push({ filePath, hash });
+          }
         } catch (error) {
           errors.push({ file: filePath, message: `Failed to read file: ${error}` });
         }
       }
 
-      // Analyze each file
-      for (const sourceFile of this.project.getSourceFiles()) {
+      const evictedFiles = await this.evictDeletedFiles(rootPath, cache);
+      cacheStats.evicted = evictedFiles.length;
+
+      // Cached symbol targets were resolved against other files; re-analyze the ones those files moved under
+      this.invalidateStaleResults(fileResults, changedFiles, evictedFiles, rootPath, resolver).forEach(entry => {
+        cacheStats.hits--;
+        cacheStats.misses++;
+        changedFiles.push(entry);
+      });
+
+      // Other languages are analyzed from their own syntax; only TypeScript/JavaScript goes through the project
+      const scriptContents = new Map(Array.from(contents).filter(([filePath]) =>
+        !this.languageAnalyzerFor(filePath) && !this.isMigration(filePath)));
+      const scriptTargets = changedFiles.map(f => f.filePath).filter(filePath => scriptContents.has(filePath));
+      const languageTargets = changedFiles.map(f => f.filePath).filter(filePath => !scriptContents.has(filePath));
+
+      // Analyze changed files only, across worker threads when asked to
+      const concurrency = Math.max(1, Math.min(options.concurrency || 1, scriptTargets.length));
+      const analyzed = concurrency > 1 ?
+        await this.analyzeInWorkers(scriptTargets, scriptContents, concurrency, errors) :
+        this.analyzeInProcess(scriptTargets, scriptContents, errors);
+      this.analyzeWithLanguageAnalyzers(languageTargets, contents, errors)
+        .forEach((result, filePath) => analyzed.set(filePath, result));
+
+      changedFiles.forEach(({ filePath, hash }) => {
+        const result = analyzed.get(filePath);
+        if (!result) return;
+        fileResults.set(filePath, result);
+        cache?.set(filePath, { hash, ...result });
+      });
+
+      try {
+        await cache?.save();
+      } catch (error) {
+        errors.push({ file: rootPath, message: `Failed to write analysis cache: ${error}` });
+      }
+
+      // Merge in walk order so the result does not depend on cache state or worker timing
+      allFiles.forEach(filePath => {
+        const result = fileResults.get(filePath);
+        if (!result) return;
+        symbols.push(...result.symbols);
+        dependencies.push(...result.dependencies);
+      });
+
+      // Migrations only describe a schema when replayed together, so they skip the per-file pass;
+      // each migration directory, e.g. one per service, is replayed as a schema of its own
+      const migrationDirectories = new Map<string, Array<{filePath: string; content: string}>>();
+      allFiles
+        .filter(filePath => this.isMigration(filePath) && contents.has(filePath))
+        .forEach(filePath => {
+          const directory = this.migrationDirectory(path.relative(rootPath, filePath))!;
+          migrationDirectories.set(directory, [...(migrationDirectories.get(directory) || []), { filePath, content: contents.get(filePath)! }]);
+        });
+      migrationDirectories.forEach(migrations => {
         try {
-          const fileSymbols = await this.analyzeFile(sourceFile);
-          symbols.push(...fileSymbols);
-          
-          const fileDeps = this.extractDependencies(sourceFile);
-          dependencies.push(...fileDeps);
+          const schema = this.migrationAnalyzer.analyze(migrations);
+          symbols.push(...schema.symbols);
+          dependencies.push(...schema.dependencies);
         } catch (error) {
-          errors.push({ 
-            file: sourceFile.getFilePath(), 
-            message: `Analysis failed: ${error}` 
-          });
+          errors.push({ file: migrations[0].filePath, message: `Migration analysis failed: ${error}` });
         }
-      }
+      });
 
-      return { symbols, dependencies, files, errors };
+      // Cross-file links some languages can only make once every symbol is known
+      allFiles.forEach(filePath => {
+        const analyzer = this.languageAnalyzerFor(filePath);
+        const content = contents.get(filePath);
+        if (!analyzer?.linkSymbols || content === undefined || !fileResults.has(filePath)) return;
+        dependencies.push(...analyzer.linkSymbols(filePath, content, symbols));
+      });
+
+      // Route paths of routers mounted under a prefix in another file
+      const mountedDependencies = this.routeAnalyzer.applyMounts(symbols, dependencies);
+
+      const resolvedImports = this.resolveImports(mountedDependencies, rootPath, resolver, new Set(allFiles), unresolvedImports);
+      const resolvedDependencies = this.resolveSymbolTargets(resolvedImports, symbols, rootPath, resolver, unresolvedSymbols);
+
+      return { symbols, dependencies: resolvedDependencies, files, errors, filterStats, unresolvedImports, unresolvedSymbols, cacheStats };
     } catch (error) {
       errors.push({ file: rootPath, message: `Directory analysis failed: ${error}` });
-      return { symbols, dependencies, files, errors };
+      return { symbols, dependencies, files, errors, filterStats, unresolvedImports, unresolvedSymbols };
+    }
+  }
+
+  /**
+   * Analyzes `targets` with every file in `contents` visible to the type checker.
+   * Runs inside analysis workers, each on its own fresh CodeIntake.
+   */
+  analyzePartition(
+    contents: Record<string, string>,
+    targets: string[],
+    compilerOptions: ts.CompilerOptions
+  ): PartitionResult {
+    const errors: Array<{file: string; message: string}> = [];
+    this.project.compilerOptions.set(compilerOptions);
+
+    const results = this.analyzeInProcess(targets, new Map(Object.entries(contents)), errors);
+    return { results: Object.fromEntries(results), errors };
+  }
+
+  private analyzeInProcess(
+    targets: string[],
+    contents: Map<string, string>,
+    errors: Array<{file: string; message: string}>
+  ): Map<string, FileAnalysis> {
+    const targetSet = new Set(targets);
+    const results = new Map<string, FileAnalysis>();
+
+    // Targets are parsed up front; everything else only needs to be visible to the checker
+    contents.forEach((content, filePath) => {
+      const existing = this.project.getSourceFile(filePath);
+      if (existing) {
+        if (existing.getFullText() !== content) existing.replaceWithText(content);
+      } else if (targetSet.has(filePath)) {
+        this.project.createSourceFile(filePath, content, { overwrite: true });
+      } else {
+        this.project.getFileSystem().writeFileSync(filePath, content);
+      }
+    });
+
+    targets.forEach(filePath => {
+      const sourceFile = this.project.getSourceFile(filePath);
+      if (!sourceFile) return;
+      const result = this.analyzeSourceFile(sourceFile, errors);
+      if (result) results.set(filePath, result);
+    });
+
+    return results;
+  }
+
+  private async analyzeInWorkers(
+    targets: string[],
+    contents: Map<string, string>,
+    concurrency: number,
+    errors: Array<{file: string; message: string}>
+  ): Promise<Map<string, FileAnalysis>> {
+    const partitions = AnalysisWorkerPool.partition(
+      targets.map(filePath => ({ filePath, size: contents.get(filePath)?.length || 0 })),
+      concurrency
+    );
+    const sharedContents = Object.fromEntries(contents);
+    const compilerOptions = this.project.getCompilerOptions();
+
+    try {
+      const partitionResults = await this.workerPool.run(partitions.map(partition => ({
+        contents: sharedContents,
+        targets: partition,
+        compilerOptions
+      })));
+
+      const results = new Map<string, FileAnalysis>();
+      partitionResults.forEach(partitionResult => {
+        errors.push(...partitionResult.errors);
+        Object.entries(partitionResult.results).forEach(([filePath, result]) => results.set(filePath, result));
+      });
+      return results;
+    } catch (error) {
+      errors.push({ file: targets[0], message: `Worker analysis failed, analyzed in process instead: ${error}` });
+      return this.analyzeInProcess(targets, contents, errors);
+    }
+  }
+
+  private analyzeWithLanguageAnalyzers(
+    targets: string[],
+    contents: Map<string, string>,
+    errors: Array<{file: string; message: string}>
+  ): Map<string, FileAnalysis> {
+    const results = new Map<string, FileAnalysis>();
+
+    targets.forEach(filePath => {
+      const analyzer = this.languageAnalyzerFor(filePath);
+      const content = contents.get(filePath);
+      if (!analyzer || content === undefined) return;
+
+      try {
+        results.set(filePath, analyzer.analyze(filePath, content));
+      } catch (error) {
+        errors.push({ file: filePath, message: `${analyzer.language} analysis failed: ${error}` });
+      }
+    });
+
+    return results;
+  }
+
+  /**
+   * Analyzes only what changed between `baseRef` and `headRef` (the working
+   * tree when omitted) plus the files directly importing or imported by it.
+   * Changed symbols are tagged `added` or `modified`; symbols that only exist
+   * in the base are analyzed from a checkout of it and added as `deleted`.
+   */
+  async analyzeDiff(
+    rootPath: string,
+    maxFiles: number,
+    baseRef: string,
+    headRef?: string,
+    options: AnalyzeOptions = {}
+  ): Promise<AnalysisResult> {
+    const git = new GitDiff(rootPath);
+    const mergeBase = await git.mergeBase(baseRef, headRef);
+    const changes = await git.changedFiles(mergeBase, headRef);
+    const changedLines = await git.changedLines(mergeBase, headRef);
+
+    // Checkouts live in temporary directories: analyze there, report paths as if under rootPath
+    const analyzeHead = (headRoot: string) => this.analyzeDirectory(headRoot, maxFiles, {
+      ...options,
+      useCache: headRef ? false : options.useCache,
+      onlyFiles: changes.filter(c => c.status !== 'deleted').map(c => path.join(headRoot, c.path)),
+      includeNeighbors: true
+    });
+    const head = headRef ?
+      await git.withCheckout(headRef, async headRoot => this.relocate(await analyzeHead(headRoot), headRoot, rootPath)) :
+      await analyzeHead(rootPath);
+
+    const baseChanges = changes.filter(c => c.status !== 'added');
+    const base = baseChanges.length === 0 ? null : await git.withCheckout(mergeBase, async baseRoot => this.relocate(
+      await this.analyzeDirectory(baseRoot, maxFiles, {
+        ...options,
+        useCache: false,
+        onlyFiles: baseChanges.map(c => path.join(baseRoot, c.oldPath || c.path))
+      }),
+      baseRoot,
+      rootPath
+    ));
+
+    const files: Record<string, ChangeStatus> = {};
+    changes.forEach(c => { files[path.join(rootPath, c.path)] = c.status; });
+    const renamed = new Map(changes.filter(c => c.oldPath).map(c => [path.join(rootPath, c.oldPath!), path.join(rootPath, c.path)]));
+    const headPath = (filePath: string) => renamed.get(filePath) || filePath;
+
+    const baseSymbols = (base?.symbols || []).map(symbol => ({ ...symbol, file: headPath(symbol.file) }));
+    const symbols = head.symbols.map(symbol => {
+      const status = files[symbol.file];
+      if (!status) return symbol;
+      if (status === 'added' || !baseSymbols.some(s => s.file === symbol.file && s.name === symbol.name)) {
+        return { ...symbol, change: 'added' as const };
+      }
+      const ranges = changedLines.get(path.relative(rootPath, symbol.file)) || [];
+      const touched = symbol.endLine === undefined ||
+        ranges.some(([start, end]) => start <= symbol.endLine! && end >= symbol.line);
+      return touched ? { ...symbol, change: 'modified' as const } : symbol;
+    });
+
+    // Symbols gone from the head, with the dependencies they had in the base
+    const deleted = baseSymbols.filter(symbol =>
+      !head.symbols.some(s => s.file === symbol.file && s.name === symbol.name));
+    deleted.forEach(symbol => symbols.push({ ...symbol, change: 'deleted' }));
+    const dependencies = [...head.dependencies];
+    (base?.dependencies || []).forEach(dep => {
+      const from = headPath(dep.from);
+      if (!deleted.some(symbol => symbol.file === from && symbol.name === dep.fromSymbol)) return;
+      dependencies.push({ ...dep, from, toFile: dep.toFile && headPath(dep.toFile) });
+    });
+
+    const deletedFiles = changes.filter(c => c.status === 'deleted').map(c => path.join(rootPath, c.path));
+    return {
+      ...head,
+      symbols,
+      dependencies,
+      files: [...head.files, ...deletedFiles.filter(file => !head.files.includes(file))],
+      errors: [...head.errors, ...(base?.errors || [])],
+      diff: { baseRef, headRef, mergeBase, files }
+    };
+  }
+
+  /**
+   * Reports unused exports, unused private members and files unreachable from
+   * the entry points of an analysis of `rootPath`. `entryPatterns` are globs
+   * relative to the root; without them, the files package.json names and
+   * common entry file names are used.
+   */
+  async findDeadCode(rootPath: string, result: AnalysisResult, entryPatterns?: string[]): Promise<DeadCodeReport> {
+    // Cached files never entered the project, and references are only found between files in it
+    const sourceFiles: SourceFile[] = [];
+    for (const filePath of result.files) {
+      if (this.languageAnalyzerFor(filePath) || this.isMigration(filePath)) continue;
+      try {
+        const content = await fs.readFile(filePath, 'utf-8');
+        const existing = this.project.getSourceFile(filePath);
+        if (existing && existing.getFullText() !== content) existing.replaceWithText(content);
+        sourceFiles.push(existing || this.project.createSourceFile(filePath, content, { overwrite: true }));
+      } catch (error) {
+        result.errors.push({ file: filePath, message: `Failed to read file: ${error}` });
+      }
+    }
+
+    const patterns = entryPatterns?.length ? entryPatterns : [...DEFAULT_ENTRY_PATTERNS, ...await this.packageEntryPatterns(rootPath)];
+    const filter = new GlobFilter(rootPath, patterns);
+    const entryPoints = result.files.filter(filePath => filter.evaluateFile(filter.relative(filePath)).included);
+
+    return this.deadCodeAnalyzer.analyze(sourceFiles, result.files, result.dependencies, entryPoints);
+  }
+
+  /**
+   * `main`, `module`, `bin` and `exports` of package.json as globs. Built
+   * output (`dist/index.js`) also matches its source (`src/index.ts`).
+   */
+  private async packageEntryPatterns(rootPath: string): Promise<string[]> {
+    let manifest: Record<string, unknown>;
+    try {
+      manifest = JSON.parse(await fs.readFile(path.join(rootPath, 'package.json'), 'utf-8'));
+    } catch {
+      return [];
+    }
+
+    const targets: string[] = [];
+    const collect = (value: unknown) => {
+      if (typeof value === 'string') targets.push(value);
+      else if (value && typeof value === 'object') Object.values(value).forEach(collect);
+    };
+    [manifest.main, manifest.module, manifest.bin, manifest.exports].forEach(collect);
+
+    return targets.flatMap(target => {
+      const stem = target.replace(/^\.\//, '').replace(/(\.d)?\.[cm]?[jt]sx?$/, '');
+      return [`/${stem}.*`, `/${stem.replace(/^(dist|build|lib|out)\//, 'src/')}.*`];
+    });
+  }
+
+  // Rewrites paths under `from` (a checkout) to the same paths under `to`
+  private relocate(result: AnalysisResult, from: string, to: string): AnalysisResult {
+    const move = (filePath: string) => filePath === from || filePath.startsWith(from + path.sep) ?
+      to + filePath.slice(from.length) : filePath;
+
+    return {
+      ...result,
+      symbols: result.symbols.map(symbol => ({
+        ...symbol,
+        file: move(symbol.file),
+        table: symbol.table && {
+          ...symbol.table,
+          columns: symbol.table.columns.map(column => column.file ? { ...column, file: move(column.file) } : column)
+        },
+        route: symbol.route && { ...symbol.route, router: symbol.route.router && move(symbol.route.router) }
+      })),
+      dependencies: result.dependencies.map(dep => ({
+        ...dep,
+        from: move(dep.from),
+        to: move(dep.to),
+        toFile: dep.toFile && move(dep.toFile)
+      })),
+      files: result.files.map(move),
+      errors: result.errors.map(error => ({ ...error, file: move(error.file) })),
+      unresolvedImports: result.unresolvedImports?.map(unresolved => ({
+        ...unresolved,
+        file: move(unresolved.file),
+        resolvedPath: unresolved.resolvedPath && move(unresolved.resolvedPath)
+      })),
+      unresolvedSymbols: result.unresolvedSymbols?.map(unresolved => ({
+        ...unresolved,
+        file: move(unresolved.file),
+        candidates: unresolved.candidates?.map(move)
+      }))
+    };
+  }
+
+  /**
+   * Narrows the walked files to `targets` and, with `includeNeighbors`, every
+   * file one import away from them in either direction. Imports are read with
+   * the compiler's pre-processor rather than a full analysis.
+   */
+  private async scopeFiles(
+    walkedFiles: string[],
+    targets: string[],
+    includeNeighbors: boolean,
+    resolver: ModuleResolver,
+    rootPath: string
+  ): Promise<string[]> {
+    const walked = new Set(walkedFiles);
+    const scope = new Set(targets.filter(filePath => walked.has(filePath)));
+    if (!includeNeighbors) return walkedFiles.filter(filePath => scope.has(filePath));
+
+    const neighbors = new Set<string>();
+    for (const filePath of walkedFiles) {
+      if (this.isMigration(filePath)) continue;
+
+      let content: string;
+      try {
+        content = await fs.readFile(filePath, 'utf-8');
+      } catch {
+        continue;
+      }
+
+      this.importedFiles(filePath, content, resolver, rootPath).forEach(imported => {
+        if (!walked.has(imported)) return;
+        if (scope.has(filePath)) neighbors.add(imported);
+        if (scope.has(imported)) neighbors.add(filePath);
+      });
     }
+
+    return walkedFiles.filter(filePath => scope.has(filePath) || neighbors.has(filePath));
   }
 
-  async buildDirectoryTree(rootPath: string): Promise<DirNode> {
+  private importedFiles(filePath: string, content: string, resolver: ModuleResolver, rootPath: string): string[] {
+    const analyzer = this.languageAnalyzerFor(filePath);
+    if (analyzer) {
+      return analyzer.analyze(filePath, content).dependencies
+        .filter(dep => dep.kind === 'import' && dep.specifier)
+        .map(dep => analyzer.resolveImport(dep.specifier!, filePath, rootPath).resolvedPath)
+        .filter((resolved): resolved is string => !!resolved);
+    }
+
+    return ts.preProcessFile(content, true, true).importedFiles
+      .map(imported => resolver.resolve(imported.fileName, filePath).resolvedPath)
+      .filter((resolved): resolved is string => !!resolved);
+  }
+
+  private languageAnalyzerFor(filePath: string): LanguageAnalyzer | undefined {
+    const extension = path.extname(filePath);
+    return this.languageAnalyzers.find(analyzer => analyzer.extensions.includes(extension));
+  }
+
+  private analyzeSourceFile(
+    sourceFile: SourceFile,
+    errors: Array<{file: string; message: string}>
+  ): FileAnalysis | null {
+    const filePath = sourceFile.getFilePath();
+
+    try {
+      const fileSymbols = this.analyzeFile(sourceFile);
+      let fileDeps = this.extractDependencies(sourceFile);
+
+      // Plain JavaScript: fill in CommonJS and prototype patterns the type checker cannot see
+      if (BABEL_EXTENSIONS.includes(path.extname(filePath))) {
+        try {
+          const babelResult = this.babelAnalyzer.analyze(filePath, sourceFile.getFullText());
+          this.mergeSymbols(fileSymbols, babelResult.symbols);
+          fileDeps.push(...babelResult.dependencies);
+        } catch (error) {
+          errors.push({ file: filePath, message: `Babel analysis failed: ${error}` });
+        }
+      }
+
+      // Components, their hooks and the render tree
+      if (REACT_EXTENSIONS.includes(path.extname(filePath))) {
+        fileDeps.push(...this.reactAnalyzer.analyze(sourceFile, fileSymbols));
+      }
+
+      // ORM entities become tables; their relations replace the plain property references
+      const relations = this.ormAnalyzer.analyze(sourceFile, fileSymbols);
+      if (relations.length > 0) {
+        fileDeps = fileDeps.filter(dep => dep.kind !== 'references' ||
+          !relations.some(rel => rel.fromSymbol === dep.fromSymbol && rel.fromMember === dep.fromMember));
+        fileDeps.push(...relations);
+      }
+
+      // Framework modules and injected constructor parameters; injections replace the plain references
+      const injections = this.decoratorAnalyzer.analyze(sourceFile, fileSymbols);
+      if (injections.length > 0) {
+        fileDeps = fileDeps.filter(dep => dep.kind !== 'references' || dep.fromMember !== 'constructor' ||
+          !injections.some(inj => inj.kind === 'injects' && inj.fromSymbol === dep.fromSymbol));
+        fileDeps.push(...injections);
+      }
+
+      // HTTP endpoints become route symbols calling their handlers
+      fileDeps.push(...this.routeAnalyzer.analyze(sourceFile, fileSymbols));
+
+      return { symbols: fileSymbols, dependencies: fileDeps };
+    } catch (error) {
+      errors.push({ file: filePath, message: `Analysis failed: ${error}` });
+      return null;
+    }
+  }
+
+  /**
+   * Drops files that no longer exist on disk from the project, its in-memory
+   * file system and the cache. Returns the evicted files.
+   */
+  private async evictDeletedFiles(rootPath: string, cache: AnalysisCache | null): Promise<string[]> {
+    const candidates = new Set<string>(cache?.filePaths() || []);
+    this.project.getSourceFiles().forEach(sf => candidates.add(sf.getFilePath()));
+
+    const prefix = rootPath.endsWith(path.sep) ? rootPath : rootPath + path.sep;
+    const evicted: string[] = [];
+
+    for (const filePath of candidates) {
+      if (!filePath.startsWith(prefix)) continue;
+      try {
+        await fs.access(filePath);
+        continue;
+      } catch {
+        // Deleted since it was analyzed
+      }
+
+      const sourceFile = this.project.getSourceFile(filePath);
+      if (sourceFile) this.project.removeSourceFile(sourceFile);
+      if (this.project.getFileSystem().fileExistsSync(filePath)) {
+        this.project.getFileSystem().deleteSync(filePath);
+      }
+      cache?.delete(filePath);
+      evicted.push(filePath);
+    }
+
+    return evicted;
+  }
+
+  /**
+   * Takes cached results out of `fileResults` when a file they depend on was
+   * added, changed or deleted since they were cached, and returns them to be
+   * analyzed again. The type checker resolved their `toFile`/`toSymbol`
+   * against those files, and a re-export can reroute a resolution through
+   * any file along the import chain, so staleness spreads to dependents.
+   */
+  private invalidateStaleResults(
+    fileResults: Map<string, FileAnalysis>,
+    changedFiles: Array<{filePath: string; hash: string}>,
+    deletedFiles: string[],
+    rootPath: string,
+    resolver: ModuleResolver
+  ): Array<{filePath: string; hash: string}> {
+    const dependents = new Map<string, Set<string>>();
+    fileResults.forEach((result, filePath) => {
+      result.dependencies.forEach(dep => {
+        const target = dep.kind === 'import' && dep.specifier ?
+          this.resolveImportTarget(dep, rootPath, resolver).resolvedPath :
+          dep.toFile;
+        if (!target || target === filePath) return;
+        if (!dependents.has(target)) dependents.set(target, new Set());
+        dependents.get(target)!.add(filePath);
+      });
+    });
+
+    const invalidated: Array<{filePath: string; hash: string}> = [];
+    const pending = [...changedFiles.map(f => f.filePath), ...deletedFiles];
+    while (pending.length > 0) {
+      dependents.get(pending.pop()!)?.forEach(filePath => {
+        const cached = fileResults.get(filePath) as CachedFileAnalysis | undefined;
+        if (!cached) return;
+        fileResults.delete(filePath);
+        invalidated.push({ filePath, hash: cached.hash });
+        pending.push(filePath);
+      });
+    }
+
+    return invalidated;
+  }
+
+  /**
+   * Points import edges at analyzed files. Imports of packages are dropped; local
+   * specifiers that resolve nowhere, or outside the analyzed set, are reported.
+   */
+  private resolveImports(
+    dependencies: Dependency[],
+    rootPath: string,
+    resolver: ModuleResolver,
+    analyzedFiles: Set<string>,
+    unresolvedImports: UnresolvedImport[]
+  ): Dependency[] {
+    const resolved: Dependency[] = [];
+
+    dependencies.forEach(dep => {
+      if (dep.kind !== 'import' || !dep.specifier) {
+        resolved.push(dep);
+        return;
+      }
+
+      const { resolvedPath, external } = this.resolveImportTarget(dep, rootPath, resolver);
+      if (external) return;
+
+      if (resolvedPath && analyzedFiles.has(resolvedPath)) {
+        // Copy rather than mutate: cached entries keep the unresolved specifier
+        resolved.push({ ...dep, to: resolvedPath });
+        return;
+      }
+
+      unresolvedImports.push({
+        file: dep.from,
+        specifier: dep.specifier,
+        line: dep.line,
+        reason: resolvedPath ? 'not-analyzed' : 'not-found',
+        resolvedPath
+      });
+    });
+
+    return resolved;
+  }
+
+  private resolveImportTarget(dep: Dependency, rootPath: string, resolver: ModuleResolver): ResolvedModule {
+    const analyzer = this.languageAnalyzerFor(dep.from);
+    return analyzer ?
+      analyzer.resolveImport(dep.specifier!, dep.from, rootPath) :
+      resolver.resolve(dep.specifier!, dep.from);
+  }
+
+  /**
+   * Points symbol dependencies the type checker could not resolve (other
+   * languages, plain names from unresolved imports) at a declaration by name.
+   * A declaration in the same file wins, then one in a file it imports; when
+   * that still leaves no single candidate the dependency is dropped and
+   * reported rather than wired to a guess. A target whose `specifier` names
+   * a package module, such as Python's `abc`, is dropped without a report.
+   */
+  private resolveSymbolTargets(
+    dependencies: Dependency[],
+    symbols: CodeSymbol[],
+    rootPath: string,
+    resolver: ModuleResolver,
+    unresolvedSymbols: UnresolvedSymbol[]
+  ): Dependency[] {
+    const byName = new Map<string, CodeSymbol[]>();
+    symbols.forEach(symbol => {
+      if (symbol.kind === 'route') return;
+      byName.set(symbol.name, [...(byName.get(symbol.name) || []), symbol]);
+    });
+
+    const importsOf = new Map<string, Set<string>>();
+    dependencies.forEach(dep => {
+      if (dep.kind !== 'import' || dep.toFile) return;
+      if (!importsOf.has(dep.from)) importsOf.set(dep.from, new Set());
+      importsOf.get(dep.from)!.add(dep.to);
+    });
+
+    const resolved: Dependency[] = [];
+    dependencies.forEach(dep => {
+      if (dep.kind === 'import' || !dep.fromSymbol || dep.toFile) {
+        resolved.push(dep);
+        return;
+      }
+      if (dep.specifier && this.resolveImportTarget(dep, rootPath, resolver).external) return;
+
+      // `Base<T>`, `Generic[T]`, `models.Base`
+      const name = dep.to.replace(/[<[].*$/s, '').split('.').pop()!.trim();
+      // A Python class cannot extend a TypeScript one
+      const language = this.languageAnalyzerFor(dep.from)?.language;
+      const candidates = (byName.get(name) || []).filter(symbol =>
+        this.languageAnalyzerFor(symbol.file)?.language === language);
+      const sameFile = candidates.filter(symbol => symbol.file === dep.from);
+      const imported = candidates.filter(symbol => importsOf.get(dep.from)?.has(symbol.file));
+      const scoped = [sameFile, imported, candidates].find(tier => tier.length > 0) || [];
+
+      if (scoped.length === 1) {
+        resolved.push({ ...dep, toFile: scoped[0].file, toSymbol: scoped[0].name });
+        return;
+      }
+
+      unresolvedSymbols.push({
+        file: dep.from,
+        symbol: dep.fromSymbol,
+        target: dep.to,
+        kind: dep.kind,
+        line: dep.line,
+        reason: scoped.length ? 'ambiguous' : 'not-found',
+        candidates: scoped.length ? Array.from(new Set(scoped.map(symbol => symbol.file))) : undefined
+      });
+    });
+
+    return resolved;
+  }
+
+  async buildDirectoryTree(rootPath: string, filter?: GlobFilter, treeRoot: string = rootPath): Promise<DirNode> {
     const stats = await fs.stat(rootPath);
     const name = path.basename(rootPath);
 
@@ -85,11 +842,14 @@ export class CodeIntake {
         if (this.shouldIgnore(entry.name)) continue;
         
         const childPath = path.join(rootPath, entry.name);
+        const relPath = filter?.relative(childPath);
         
         if (entry.isDirectory()) {
-          const childTree = await this.buildDirectoryTree(childPath);
+          if (filter && (filter.directoryExcludedBy(relPath) || !filter.couldContainIncluded(relPath))) continue;
+          const childTree = await this.buildDirectoryTree(childPath, filter, treeRoot);
           children.push(childTree);
-        } else if (this.isSupportedFile(entry.name)) {
+        } else if (this.isSupportedFile(path.relative(treeRoot, childPath))) {
+          if (filter && !filter.evaluateFile(relPath).included) continue;
           children.push({ name: entry.name, path: childPath, kind: 'file' });
         }
       }
@@ -101,7 +861,12 @@ export class CodeIntake {
     return { name, path: rootPath, kind: 'dir', children };
   }
 
-  private async findSourceFiles(rootPath: string, maxFiles: number): Promise<string[]> {
+  private async findSourceFiles(
+    rootPath: string,
+    maxFiles: number,
+    filter: GlobFilter,
+    filterStats?: FilterStats
+  ): Promise<string[]> {
     const files: string[] = [];
     
     const traverse = async (dirPath: string) => {
@@ -115,11 +880,25 @@ export class CodeIntake {
           if (this.shouldIgnore(entry.name)) continue;
           
           const fullPath = path.join(dirPath, entry.name);
+          const relPath = filter.relative(fullPath);
           
           if (entry.isDirectory()) {
+            const excludedBy = filter.directoryExcludedBy(relPath);
+            if (excludedBy) {
+              this.recordExclusion(filterStats, excludedBy, 'directories');
+              continue;
+            }
+            if (!filter.couldContainIncluded(relPath)) continue;
             await traverse(fullPath);
-          } else if (this.isSupportedFile(entry.name)) {
-            files.push(fullPath);
+          } else if (this.isSupportedFile(relPath)) {
+            const decision = filter.evaluateFile(relPath);
+            if (decision.excludedBy) {
+              this.recordExclusion(filterStats, decision.excludedBy, 'files');
+            } else if (decision.notIncluded) {
+              if (filterStats) filterStats.notIncluded++;
+            } else {
+              files.push(fullPath);
+            }
           }
         }
       } catch (error) {
@@ -131,7 +910,7 @@ export class CodeIntake {
     return files;
   }
 
-  private async analyzeFile(sourceFile: SourceFile): Promise<CodeSymbol[]> {
+  private analyzeFile(sourceFile: SourceFile): CodeSymbol[] {
     const symbols: CodeSymbol[] = [];
     const filePath = sourceFile.getFilePath();
 
@@ -142,21 +921,18 @@ export class CodeIntake {
         kind: 'class',
         file: filePath,
         line: cls.getStartLineNumber(),
+        endLine: cls.getEndLineNumber(),
         column: cls.getStart(),
-        properties: cls.getProperties().map(prop => ({
-          name: prop.getName(),
-          type: prop.getType().getText(),
-          line: prop.getStartLineNumber()
-        })),
-        methods: cls.getMethods().map(method => ({
-          name: method.getName(),
-          parameters: method.getParameters().map(p => p.getName()),
-          returnType: method.getReturnType().getText(),
-          line: method.getStartLineNumber()
-        })),
+        properties: this.classProperties(cls),
+        methods: this.classMethods(cls),
+        typeParameters: this.typeParameters(cls),
+        isAbstract: cls.isAbstract() || undefined,
         extends: cls.getExtends()?.getText(),
-        implements: cls.getImplements().map(impl => impl.getText())
+        implements: cls.getImplements().map(impl => impl.getText()),
+        doc: this.extractDoc(cls)
       };
+      // Stereotype, module kind and controller routes from framework decorators
+      this.decoratorAnalyzer.annotate(cls, symbol);
       symbols.push(symbol);
     });
 
@@ -167,35 +943,65 @@ export class CodeIntake {
         kind: 'interface',
         file: filePath,
         line: iface.getStartLineNumber(),
+        endLine: iface.getEndLineNumber(),
         column: iface.getStart(),
         properties: iface.getProperties().map(prop => ({
           name: prop.getName(),
-          type: prop.getType().getText(),
-          line: prop.getStartLineNumber()
+          type: prop.getType().getText(prop),
+          line: prop.getStartLineNumber(),
+          visibility: 'public' as const,
+          isReadonly: prop.isReadonly() || undefined,
+          isOptional: prop.hasQuestionToken() || undefined
         })),
-        extends: iface.getExtends().map(ext => ext.getText()).join(', ') || undefined
+        methods: iface.getMethods().map(method => ({
+          name: method.getName(),
+          parameters: method.getParameters().map(p => p.getName()),
+          returnType: method.getReturnType().getText(method),
+          typeParameters: this.typeParameters(method),
+          visibility: 'public' as const,
+          isOptional: method.hasQuestionToken() || undefined,
+          doc: this.extractDoc(method),
+          line: method.getStartLineNumber()
+        })),
+        typeParameters: this.typeParameters(iface),
+        extends: iface.getExtends().map(ext => ext.getText()).join(', ') || undefined,
+        doc: this.extractDoc(iface)
       };
       symbols.push(symbol);
     });
 
     // Extract functions
     sourceFile.getFunctions().forEach(func => {
+      const doc = this.extractDoc(func);
       const symbol: CodeSymbol = {
         name: func.getName() || 'anonymous',
         kind: 'function',
         file: filePath,
         line: func.getStartLineNumber(),
+        endLine: func.getEndLineNumber(),
         column: func.getStart(),
         methods: [{
           name: func.getName() || 'anonymous',
           parameters: func.getParameters().map(p => p.getName()),
-          returnType: func.getReturnType().getText(),
+          returnType: func.getReturnType().getText(func),
+          typeParameters: this.typeParameters(func),
+          complexity: this.cyclomaticComplexity(func),
+          doc,
           line: func.getStartLineNumber()
-        }]
+        }],
+        doc
       };
       symbols.push(symbol);
     });
 
+    // Extract exported variables: arrow-function components, object literals, factory results
+    sourceFile.getVariableStatements().filter(stmt => stmt.isExported()).forEach(stmt => {
+      stmt.getDeclarations().forEach(decl => {
+        const symbol = this.analyzeVariable(decl, filePath);
+        if (symbol) symbols.push(symbol);
+      });
+    });
+
     // Extract type aliases
     sourceFile.getTypeAliases().forEach(type => {
       const symbol: CodeSymbol = {
@@ -203,7 +1009,10 @@ export class CodeIntake {
         kind: 'type',
         file: filePath,
         line: type.getStartLineNumber(),
-        column: type.getStart()
+        endLine: type.getEndLineNumber(),
+        column: type.getStart(),
+        typeParameters: this.typeParameters(type),
+        doc: this.extractDoc(type)
       };
       symbols.push(symbol);
     });
@@ -215,66 +1024,610 @@ export class CodeIntake {
         kind: 'enum',
         file: filePath,
         line: enumDecl.getStartLineNumber(),
+        endLine: enumDecl.getEndLineNumber(),
         column: enumDecl.getStart(),
         properties: enumDecl.getMembers().map(member => ({
           name: member.getName(),
           line: member.getStartLineNumber()
-        }))
+        })),
+        doc: this.extractDoc(enumDecl)
       };
       symbols.push(symbol);
     });
 
+    symbols.forEach(symbol => { symbol.metrics = this.symbolMetrics(symbol); });
     return symbols;
   }
 
-  private extractDependencies(sourceFile: SourceFile): Array<{from: string; to: string; kind: string}> {
-    const dependencies: Array<{from: string; to: string; kind: string}> = [];
+  // Declared fields, then fields declared as constructor parameters
+  private classProperties(cls: ClassDeclaration): SymbolProperty[] {
+    const parameterProperties = cls.getConstructors()
+      .flatMap(ctor => ctor.getParameters())
+      .filter(param => param.isParameterProperty());
+
+    return [
+      ...cls.getProperties().map(prop => ({
+        name: prop.getName(),
+        type: prop.getType().getText(prop),
+        line: prop.getStartLineNumber(),
+        visibility: this.visibility(prop),
+        isStatic: prop.isStatic() || undefined,
+        isAbstract: prop.isAbstract() || undefined,
+        isReadonly: prop.isReadonly() || undefined,
+        isOptional: prop.hasQuestionToken() || undefined
+      })),
+      ...parameterProperties.map(param => ({
+        name: param.getName(),
+        type: param.getType().getText(param),
+        line: param.getStartLineNumber(),
+        visibility: this.visibility(param),
+        isReadonly: param.isReadonly() || undefined,
+        isOptional: param.hasQuestionToken() || undefined,
+        isParameterProperty: true
+      }))
+    ];
+  }
+
+  // Constructors first, then methods and accessors in declaration order
+  private classMethods(cls: ClassDeclaration): SymbolMethod[] {
+    const constructors: SymbolMethod[] = cls.getConstructors().map(ctor => ({
+      name: 'constructor',
+      kind: 'constructor',
+      parameters: ctor.getParameters().map(p => p.getName()),
+      visibility: this.visibility(ctor),
+      complexity: this.cyclomaticComplexity(ctor),
+      doc: this.extractDoc(ctor),
+      line: ctor.getStartLineNumber()
+    }));
+
+    const members = [...cls.getMethods(), ...cls.getGetAccessors(), ...cls.getSetAccessors()]
+      .sort((a, b) => a.getStart() - b.getStart());
+
+    return [...constructors, ...members.map(member => {
+      const method: SymbolMethod = {
+        name: member.getName(),
+        parameters: member.getParameters().map(p => p.getName()),
+        visibility: this.visibility(member),
+        isStatic: member.isStatic() || undefined,
+        isAbstract: member.isAbstract() || undefined,
+        complexity: this.cyclomaticComplexity(member),
+        doc: this.extractDoc(member),
+        line: member.getStartLineNumber()
+      };
+
+      if (Node.isMethodDeclaration(member)) {
+        method.returnType = member.getReturnType().getText(member);
+        method.typeParameters = this.typeParameters(member);
+        method.isOptional = member.hasQuestionToken() || undefined;
+      } else if (Node.isGetAccessorDeclaration(member)) {
+        method.kind = 'get';
+        method.returnType = member.getReturnType().getText(member);
+      } else {
+        method.kind = 'set';
+      }
+      return method;
+    })];
+  }
+
+  // `#name` members are private whatever their modifiers say
+  private visibility(member: Node & { getScope(): Scope }): MemberVisibility {
+    const nameNode = (member as { getNameNode?: () => Node }).getNameNode?.();
+    if (nameNode && Node.isPrivateIdentifier(nameNode)) return 'private';
+    return VISIBILITIES[member.getScope()];
+  }
+
+  private typeParameters(node: { getTypeParameters(): TypeParameterDeclaration[] }): TypeParameter[] | undefined {
+    const params = node.getTypeParameters().map(param => ({
+      name: param.getName(),
+      constraint: param.getConstraint()?.getText(),
+      default: param.getDefault()?.getText()
+    }));
+    return params.length > 0 ? params : undefined;
+  }
+
+  /**
+   * The last JSDoc block before a declaration: its description as summary,
+   * `@param`/`@returns` texts, `@deprecated` and every other block tag by
+   * name. Returns undefined when there is no comment.
+   */
+  private extractDoc(node: Node): SymbolDoc | undefined {
+    const jsDoc = Node.isJSDocable(node) ? node.getJsDocs().pop() : undefined;
+    if (!jsDoc) return undefined;
+
+    const doc: SymbolDoc = {};
+    const summary = jsDoc.getDescription().trim();
+    if (summary) doc.summary = summary;
+
+    jsDoc.getTags().forEach(tag => {
+      const name = tag.getTagName();
+      // `@param id - The user id` keeps only the description
+      const text = (tag.getCommentText() || '').trim().replace(/^-\s*/, '');
+
+      if (Node.isJSDocParameterTag(tag)) {
+        doc.params = { ...doc.params, [tag.getName()]: text };
+      } else if (name === 'returns' || name === 'return') {
+        doc.returns = text;
+      } else if (name === 'deprecated') {
+        doc.deprecated = text || true;
+      } else {
+        doc.tags = { ...doc.tags, [name]: [...(doc.tags?.[name] || []), text] };
+      }
+    });
+
+    return doc;
+  }
+
+  private symbolMetrics(symbol: CodeSymbol): CodeSymbol['metrics'] {
+    // Interfaces and other symbols without method bodies have no complexity to report
+    const complexities = (symbol.methods || [])
+      .map(method => method.complexity)
+      .filter((complexity): complexity is number => complexity !== undefined);
+    const isFunction = symbol.kind === 'function';
+    return {
+      loc: symbol.endLine !== undefined ? symbol.endLine - symbol.line + 1 : undefined,
+      complexity: complexities.length > 0 ? complexities.reduce((sum, value) => sum + value, 0) : undefined,
+      members: isFunction ? undefined : (symbol.properties?.length || 0) + (symbol.methods?.length || 0)
+    };
+  }
+
+  /**
+   * One plus every branch: conditionals, loops, `case` clauses, `catch` and
+   * short-circuit operators. Callbacks defined inline count toward the
+   * function that holds them.
+   */
+  private cyclomaticComplexity(callable: Node): number {
+    let complexity = 1;
+    callable.forEachDescendant(node => {
+      if (DECISION_KINDS.includes(node.getKind())) {
+        complexity++;
+      } else if (Node.isBinaryExpression(node) && LOGICAL_OPERATORS.includes(node.getOperatorToken().getKind())) {
+        complexity++;
+      }
+    });
+    return complexity;
+  }
+
+  private analyzeVariable(decl: VariableDeclaration, filePath: string): CodeSymbol | null {
+    // Destructured bindings have no single name to show
+    if (!Node.isIdentifier(decl.getNameNode())) return null;
+
+    const name = decl.getName();
+    const initializer = this.unwrapExpression(decl.getInitializer());
+    // Comments sit on the statement: `/** ... */ export const x = ...`
+    const statement = decl.getVariableStatement();
+    const base = {
+      name,
+      file: filePath,
+      line: decl.getStartLineNumber(),
+      endLine: decl.getEndLineNumber(),
+      column: decl.getStart(),
+      doc: statement ? this.extractDoc(statement) : undefined
+    };
+
+    if (Node.isArrowFunction(initializer) || Node.isFunctionExpression(initializer)) {
+      return {
+        ...base,
+        kind: 'function',
+        methods: [{
+          name,
+          parameters: initializer.getParameters().map(p => p.getName()),
+          returnType: initializer.getReturnType().getText(decl),
+          complexity: this.cyclomaticComplexity(initializer),
+          doc: base.doc,
+          line: decl.getStartLineNumber()
+        }]
+      };
+    }
+
+    if (Node.isObjectLiteralExpression(initializer)) {
+      return {
+        ...base,
+        kind: 'variable',
+        properties: initializer.getProperties()
+          .filter(member => !Node.isSpreadAssignment(member))
+          .map(member => ({
+            name: (member as PropertyAssignment).getName(),
+            type: member.getType().getText(decl),
+            line: member.getStartLineNumber()
+          }))
+      };
+    }
+
+    // Factory results and other values: list the members of object-typed values
+    const type = decl.getType();
+    const isPlainObject = type.isObject() && !type.isArray() && type.getCallSignatures().length === 0;
+    return {
+      ...base,
+      kind: 'variable',
+      properties: isPlainObject ?
+        type.getProperties().slice(0, MAX_VARIABLE_MEMBERS).map(prop => ({
+          name: prop.getName(),
+          type: prop.getTypeAtLocation(decl).getText(decl),
+          line: decl.getStartLineNumber()
+        })) :
+        [{ name: 'value', type: type.getText(decl), line: decl.getStartLineNumber() }]
+    };
+  }
+
+  // `x as T`, `x satisfies T` and parentheses do not change what the value is
+  private unwrapExpression(expression: Node | undefined): Node | undefined {
+    let current = expression;
+    while (
+      Node.isAsExpression(current) ||
+      Node.isSatisfiesExpression(current) ||
+      Node.isParenthesizedExpression(current)
+    ) {
+      current = current.getExpression();
+    }
+    return current;
+  }
+
+  private extractDependencies(sourceFile: SourceFile): Dependency[] {
+    const dependencies: Dependency[] = [];
     const filePath = sourceFile.getFilePath();
 
-    // Extract import dependencies
+    // Extract import dependencies; specifiers are resolved once all files are analyzed
+    const addImport = (specifier: string | undefined, line: number) => {
+      if (!specifier) return;
+      dependencies.push({ from: filePath, to: specifier, kind: 'import', specifier, line });
+    };
+
     sourceFile.getImportDeclarations().forEach(importDecl => {
-      const moduleSpecifier = importDecl.getModuleSpecifierValue();
-      if (moduleSpecifier.startsWith('.')) {
-        // Relative import - resolve to absolute path
-        const resolvedPath = path.resolve(path.dirname(filePath), moduleSpecifier);
-        dependencies.push({
-          from: filePath,
-          to: resolvedPath,
-          kind: 'import'
-        });
+      addImport(importDecl.getModuleSpecifierValue(), importDecl.getStartLineNumber());
+    });
+
+    // Re-exports (barrels)
+    sourceFile.getExportDeclarations().forEach(exportDecl => {
+      addImport(exportDecl.getModuleSpecifierValue(), exportDecl.getStartLineNumber());
+    });
+
+    // Dynamic import('...')
+    sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression).forEach(call => {
+      if (call.getExpression().getKind() !== SyntaxKind.ImportKeyword) return;
+      const [arg] = call.getArguments();
+      if (Node.isStringLiteral(arg) || Node.isNoSubstitutionTemplateLiteral(arg)) {
+        addImport(arg.getLiteralValue(), call.getStartLineNumber());
       }
     });
 
-    // Extract class inheritance
+    // Extract inheritance, resolved to the declaring file so generics and aliases don't matter
+    const addHeritage = (owner: string | undefined, clause: ExpressionWithTypeArguments, kind: string) => {
+      const expression = clause.getExpression();
+      // Mixins and other computed bases have no single declaration to point at
+      if (!owner || !(Node.isIdentifier(expression) || Node.isPropertyAccessExpression(expression))) return;
+
+      const target = this.resolveDeclaration(expression);
+      if (target === 'external') return;
+      dependencies.push({
+        from: filePath,
+        to: target?.symbol || expression.getText(),
+        kind,
+        fromSymbol: owner,
+        toFile: target?.file,
+        toSymbol: target?.symbol,
+        line: clause.getStartLineNumber()
+      });
+    };
+
     sourceFile.getClasses().forEach(cls => {
       const extendsClause = cls.getExtends();
-      if (extendsClause) {
-        dependencies.push({
+      if (extendsClause) addHeritage(cls.getName(), extendsClause, 'extends');
+      cls.getImplements().forEach(impl => addHeritage(cls.getName(), impl, 'implements'));
+    });
+
+    sourceFile.getInterfaces().forEach(iface => {
+      iface.getExtends().forEach(clause => addHeritage(iface.getName(), clause, 'extends'));
+    });
+
+    // Extract call graph
+    dependencies.push(...this.extractCallDependencies(sourceFile));
+
+    // Extract type references between symbols
+    dependencies.push(...this.extractReferenceDependencies(sourceFile));
+
+    return dependencies;
+  }
+
+  /**
+   * The class or interface an expression names, through import aliases.
+   * Declarations in `.d.ts` files and packages are `external`; undefined
+   * means the checker could not see one, e.g. an import that did not resolve.
+   */
+  private resolveDeclaration(expression: Node): { file: string; symbol: string } | 'external' | undefined {
+    const symbol = expression.getSymbol();
+    const target = symbol?.isAlias() ? symbol.getAliasedSymbol() : symbol;
+    const declaration = target?.getDeclarations().find(decl =>
+      Node.isClassDeclaration(decl) || Node.isInterfaceDeclaration(decl)
+    ) as ClassDeclaration | InterfaceDeclaration | undefined;
+    if (!declaration) return undefined;
+
+    const sourceFile = declaration.getSourceFile();
+    if (sourceFile.isDeclarationFile() || sourceFile.isInNodeModules()) return 'external';
+
+    const name = declaration.getName();
+    return name ? { file: sourceFile.getFilePath(), symbol: name } : undefined;
+  }
+
+  private extractReferenceDependencies(sourceFile: SourceFile): Dependency[] {
+    const references = new Map<string, Dependency>();
+    const filePath = sourceFile.getFilePath();
+
+    const addReferences = (owner: string, member: string, typed: TypedMember) => {
+      this.resolveTypeReferences(typed).forEach(ref => {
+        const key = [owner, member, ref.file, ref.symbol].join('|');
+        if (references.has(key)) return;
+        references.set(key, {
           from: filePath,
-          to: extendsClause.getText(),
-          kind: 'extends'
+          to: ref.symbol,
+          kind: 'references',
+          fromSymbol: owner,
+          fromMember: member,
+          toFile: ref.file,
+          toSymbol: ref.symbol,
+          multiplicity: ref.multiplicity,
+          line: typed.getStartLineNumber()
         });
+      });
+    };
+
+    sourceFile.getClasses().forEach(cls => {
+      const owner = cls.getName();
+      if (!owner) return;
+
+      cls.getProperties().forEach(prop => addReferences(owner, prop.getName(), prop));
+      cls.getMethods().forEach(method => {
+        method.getParameters().forEach(param => addReferences(owner, method.getName(), param));
+      });
+      cls.getConstructors().forEach(ctor => {
+        ctor.getParameters().forEach(param => addReferences(owner, 'constructor', param));
+      });
+    });
+
+    sourceFile.getInterfaces().forEach(iface => {
+      iface.getProperties().forEach(prop => addReferences(iface.getName(), prop.getName(), prop));
+    });
+
+    return Array.from(references.values());
+  }
+
+  private resolveTypeReferences(typed: TypedMember): Array<{file: string; symbol: string; multiplicity: Multiplicity}> {
+    const typeNode = typed.getTypeNode();
+    if (!typeNode) return [];
+
+    const typeRefs = Node.isTypeReference(typeNode) ?
+      [typeNode, ...typeNode.getDescendantsOfKind(SyntaxKind.TypeReference)] :
+      typeNode.getDescendantsOfKind(SyntaxKind.TypeReference);
+
+    const optional = typed.hasQuestionToken() || (
+      Node.isUnionTypeNode(typeNode) &&
+      typeNode.getTypeNodes().some(t => t.getKind() === SyntaxKind.UndefinedKeyword || t.getText() === 'null')
+    );
+
+    const results: Array<{file: string; symbol: string; multiplicity: Multiplicity}> = [];
+    typeRefs.forEach(typeRef => {
+      const symbol = typeRef.getTypeName().getSymbol();
+      const target = symbol?.isAlias() ? symbol.getAliasedSymbol() : symbol;
+      const declaration = target?.getDeclarations().find(decl =>
+        Node.isClassDeclaration(decl) ||
+        Node.isInterfaceDeclaration(decl) ||
+        Node.isEnumDeclaration(decl) ||
+        Node.isTypeAliasDeclaration(decl)
+      ) as ClassDeclaration | InterfaceDeclaration | EnumDeclaration | TypeAliasDeclaration | undefined;
+
+      const name = declaration?.getName();
+      if (!declaration || !name) return;
+
+      const inCollection = typeRef.getAncestors()
+        .slice(0, typeRef.getAncestors().indexOf(typeNode) + 1)
+        .some(ancestor =>
+          Node.isArrayTypeNode(ancestor) ||
+          (Node.isTypeReference(ancestor) && COLLECTION_TYPES.includes(ancestor.getTypeName().getText()))
+        );
+
+      results.push({
+        file: declaration.getSourceFile().getFilePath(),
+        symbol: name,
+        multiplicity: inCollection ? 'array' : optional ? 'optional' : 'single'
+      });
+    });
+
+    return results;
+  }
+
+  private extractCallDependencies(sourceFile: SourceFile): Dependency[] {
+    const typeChecker = this.project.getTypeChecker();
+    const calls = new Map<string, Dependency>();
+    const filePath = sourceFile.getFilePath();
+
+    const callExpressions = [
+      ...sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression),
+      ...sourceFile.getDescendantsOfKind(SyntaxKind.NewExpression)
+    ];
+
+    callExpressions.forEach(call => {
+      const caller = this.findEnclosingCallable(call);
+      if (!caller) return;
+
+      let callee: CallableRef | null = null;
+      try {
+        const declaration = typeChecker.getResolvedSignature(call)?.getDeclaration();
+        callee = declaration ? this.describeCallable(declaration) : null;
+      } catch {
+        callee = null;
       }
 
-      cls.getImplements().forEach(impl => {
-        dependencies.push({
-          from: filePath,
-          to: impl.getText(),
-          kind: 'implements'
-        });
+      if (!callee) {
+        // Implicit constructors and unresolved signatures: fall back to the callee's symbol
+        const symbol = call.getExpression().getSymbol();
+        const target = symbol?.isAlias() ? symbol.getAliasedSymbol() : symbol;
+        const declaration = target?.getDeclarations()[0];
+        callee = declaration ? this.describeCallable(declaration) : null;
+      }
+
+      if (!callee || callee.external) return;
+
+      const key = [caller.symbol, caller.member, callee.file, callee.symbol, callee.member].join('|');
+      const existing = calls.get(key);
+      if (existing) {
+        existing.count = (existing.count || 1) + 1;
+        return;
+      }
+
+      calls.set(key, {
+        from: filePath,
+        to: callee.symbol,
+        kind: 'calls',
+        fromSymbol: caller.symbol,
+        fromMember: caller.member,
+        toFile: callee.file,
+        toSymbol: callee.symbol,
+        toMember: callee.member,
+        count: 1,
+        line: call.getStartLineNumber()
       });
     });
 
-    return dependencies;
+    return Array.from(calls.values());
+  }
+
+  private findEnclosingCallable(node: Node): CallableRef | null {
+    for (const ancestor of node.getAncestors()) {
+      const ref = this.describeCallable(ancestor);
+      if (ref) return ref;
+    }
+    return null;
+  }
+
+  private describeCallable(node: Node): CallableRef | null {
+    const sourceFile = node.getSourceFile();
+    const file = sourceFile.getFilePath();
+    const external = sourceFile.isDeclarationFile() || sourceFile.isInNodeModules();
+
+    const ref = this.describeCallableNode(node, file);
+    return ref && external ? { ...ref, external } : ref;
+  }
+
+  private describeCallableNode(node: Node, file: string): CallableRef | null {
+    if (Node.isFunctionDeclaration(node)) {
+      const name = node.getName();
+      return name ? { file, symbol: name } : null;
+    }
+
+    if (Node.isClassDeclaration(node)) {
+      const name = node.getName();
+      return name ? { file, symbol: name, member: 'constructor' } : null;
+    }
+
+    if (
+      Node.isMethodDeclaration(node) ||
+      Node.isMethodSignature(node) ||
+      Node.isGetAccessorDeclaration(node) ||
+      Node.isSetAccessorDeclaration(node) ||
+      Node.isConstructorDeclaration(node)
+    ) {
+      const owner = node.getParent();
+      const ownerName = Node.isClassDeclaration(owner) || Node.isInterfaceDeclaration(owner) ?
+        owner.getName() :
+        this.moduleLevelObjectName(owner);
+      if (!ownerName) return null;
+      const member = Node.isConstructorDeclaration(node) ? 'constructor' : node.getName();
+      return { file, symbol: ownerName, member };
+    }
+
+    if (Node.isArrowFunction(node) || Node.isFunctionExpression(node)) {
+      // Inline route handlers act on behalf of their route
+      const route = this.routeAnalyzer.routeForHandler(node);
+      if (route) return { file, symbol: route };
+
+      const parent = node.getParent();
+      // Only module-level bindings name a symbol; local helpers belong to their enclosing callable
+      if (Node.isVariableDeclaration(parent) && Node.isSourceFile(parent.getVariableStatement()?.getParent())) {
+        return { file, symbol: parent.getName() };
+      }
+      if (Node.isPropertyDeclaration(parent)) {
+        const owner = parent.getParent();
+        const ownerName = Node.isClassDeclaration(owner) ? owner.getName() : undefined;
+        return ownerName ? { file, symbol: ownerName, member: parent.getName() } : null;
+      }
+      if (Node.isPropertyAssignment(parent)) {
+        const ownerName = this.moduleLevelObjectName(parent.getParent());
+        return ownerName ? { file, symbol: ownerName, member: parent.getName() } : null;
+      }
+    }
+
+    return null;
+  }
+
+  // Name of `const api = { ... }` when `node` is that module-level object literal
+  private moduleLevelObjectName(node: Node | undefined): string | undefined {
+    if (!Node.isObjectLiteralExpression(node)) return undefined;
+    const outermost = node.getParentWhile(parent =>
+      Node.isAsExpression(parent) || Node.isSatisfiesExpression(parent) || Node.isParenthesizedExpression(parent)
+    ) ?? node;
+    const declaration = outermost.getParent();
+    if (!Node.isVariableDeclaration(declaration)) return undefined;
+    return Node.isSourceFile(declaration.getVariableStatement()?.getParent()) ? declaration.getName() : undefined;
+  }
+
+  private mergeSymbols(target: CodeSymbol[], additional: CodeSymbol[]): void {
+    additional.forEach(symbol => {
+      const index = target.findIndex(existing => existing.name === symbol.name);
+      if (index === -1) {
+        target.push(symbol);
+        return;
+      }
+
+      const existing = target[index];
+      if (existing.kind === 'function' && symbol.kind === 'class') {
+        // Constructor function with prototype members; the type checker's view of the function
+        // (extent, doc, complexity) carries over to the class and its constructor
+        const merged: CodeSymbol = {
+          ...existing,
+          kind: 'class',
+          methods: (symbol.methods || []).map(method => method.name === 'constructor' ?
+            { ...existing.methods?.[0], ...method, kind: 'constructor' as const } : method),
+          extends: symbol.extends || existing.extends,
+          exports: symbol.exports || existing.exports
+        };
+        merged.metrics = this.symbolMetrics(merged);
+        target[index] = merged;
+      } else {
+        existing.exports = symbol.exports || existing.exports;
+        existing.extends = existing.extends || symbol.extends;
+      }
+    });
+  }
+
+  private recordExclusion(filterStats: FilterStats | undefined, pattern: string, bucket: 'files' | 'directories'): void {
+    const entry = filterStats?.excluded.find(e => e.pattern === pattern);
+    if (entry) entry[bucket]++;
   }
 
   private shouldIgnore(name: string): boolean {
     return IGNORE_PATTERNS.some(pattern => name.includes(pattern)) ||
            name.startsWith('.') ||
-           name.startsWith('__');
+           // `__tests__`, `__pycache__`, ... but not Python's `__init__.py`
+           (name.startsWith('__') && !this.languageAnalyzerFor(name));
   }
 
-  private isSupportedFile(filename: string): boolean {
-    return SUPPORTED_EXTENSIONS.some(ext => filename.endsWith(ext));
+  // `relPath` is relative to the analyzed root, which decides whether a `.sql` file is a migration
+  private isSupportedFile(relPath: string): boolean {
+    return SUPPORTED_EXTENSIONS.some(ext => relPath.endsWith(ext)) || !!this.languageAnalyzerFor(relPath) ||
+      !!this.migrationDirectory(relPath);
+  }
+
+  // Only migrations make it into the file list as `.sql` files
+  private isMigration(filePath: string): boolean {
+    return SQL_EXTENSIONS.includes(path.extname(filePath));
+  }
+
+  // Innermost migration directory above a `.sql` file, relative to the root
+  private migrationDirectory(relPath: string): string | undefined {
+    if (!SQL_EXTENSIONS.includes(path.extname(relPath))) return undefined;
+    const directories = relPath.split(/[\\/]/).slice(0, -1);
+    for (let i = directories.length - 1; i >= 0; i--) {
+      if (MIGRATION_DIRECTORIES.includes(directories[i].toLowerCase())) return directories.slice(0, i + 1).join('/');
+    }
+    return undefined;
   }
 }
\ No newline at end of file
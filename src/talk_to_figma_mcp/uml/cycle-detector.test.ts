@@ -0,0 +1,60 @@
+import { describe, expect, test } from 'bun:test';
+import { CycleDetector } from './cycle-detector.js';
+import { UmlDiagram, UmlEdge, UmlNode } from './types.js';
+
+const node = (id: string, file: string): UmlNode => ({ id, label: id.toUpperCase(), kind: 'class', file });
+const edge = (source: string, target: string, type: UmlEdge['type']): UmlEdge =>
+  ({ id: `${source}-${target}`, source, target, type });
+
+describe('CycleDetector', () => {
+  test('reports each import component once with a shortest closed path', () => {
+    // a → b → c → a, plus the shortcut b → a; d → e is acyclic and e imports itself
+    const imports: Array<[string, string]> = [
+      ['src/a.ts', 'src/b.ts'], ['src/b.ts', 'src/c.ts'], ['src/c.ts', 'src/a.ts'], ['src/b.ts', 'src/a.ts'],
+      ['src/d.ts', 'src/e.ts'], ['src/e.ts', 'src/e.ts']
+    ];
+    const diagram: UmlDiagram = {
+      nodes: [node('a', 'src/a.ts'), node('b', 'src/b.ts'), node('c', 'src/c.ts'), node('d', 'src/d.ts')],
+      edges: [edge('a', 'b', 'import'), edge('c', 'a', 'import'), edge('d', 'a', 'import')]
+    };
+
+    const cycles = new CycleDetector().detect(diagram, imports);
+
+    expect(cycles).toHaveLength(1);
+    expect(cycles[0].kind).toBe('import');
+    expect(cycles[0].files).toEqual(['src/a.ts', 'src/b.ts', 'src/c.ts']);
+    expect(cycles[0].path).toEqual(['src/a.ts', 'src/b.ts', 'src/a.ts']);
+    expect(cycles[0].nodeIds).toEqual(['a', 'b', 'c']);
+    expect(cycles[0].edgeIds).toEqual(['a-b', 'c-a']);
+  });
+
+  test('finds symbol cycles over dependency edges only', () => {
+    const diagram: UmlDiagram = {
+      nodes: [node('x', 'src/x.ts'), node('y', 'src/y.ts'), node('z', 'src/x.ts'), node('w', 'src/w.ts')],
+      edges: [
+        edge('x', 'y', 'calls'), edge('y', 'z', 'references'), edge('z', 'x', 'extends'),
+        // Relations are navigable both ways by design
+        edge('x', 'w', 'relation'), edge('w', 'x', 'relation')
+      ]
+    };
+
+    const cycles = new CycleDetector().detect(diagram, []);
+
+    expect(cycles.map(cycle => [cycle.kind, cycle.nodeIds, cycle.files, cycle.path])).toEqual([
+      ['symbol', ['x', 'y', 'z'], ['src/x.ts', 'src/y.ts'], ['X', 'Y', 'Z', 'X']]
+    ]);
+  });
+
+  test('does not depend on edge order and survives long chains', () => {
+    const chain: Array<[string, string]> = Array.from({ length: 20000 }, (_, i) => [`f${i}`, `f${i + 1}`]);
+    chain.push(['f20000', 'f0']);
+    const diagram: UmlDiagram = { nodes: [], edges: [] };
+
+    const forward = new CycleDetector().detect(diagram, chain);
+    const backward = new CycleDetector().detect(diagram, chain.slice().reverse());
+
+    expect(forward).toHaveLength(1);
+    expect(forward[0].files).toHaveLength(20001);
+    expect(backward[0].id).toBe(forward[0].id);
+  });
+});
@@ -0,0 +1,157 @@
+import { createHash } from 'crypto';
+import { UmlDiagram, UmlCycle, UmlEdge } from './types.js';
+
+// Edges that make one symbol depend on another; containment, generated code
+// and ORM relations (navigable both ways by design) are not cycles to report
+const SYMBOL_EDGE_TYPES: Array<UmlEdge['type']> = ['extends', 'implements', 'references', 'calls', 'injects', 'renders'];
+
+/**
+ * Finds dependency cycles as the strongly connected components of two
+ * graphs: files linked by their imports, and diagram nodes linked by symbol
+ * edges. Every component with more than one member is reported once, with
+ * the nodes and edges inside it and the shortest closed path through its
+ * first member for reading.
+ */
+export class CycleDetector {
+  // `fileImports` are [importer, imported] pairs of payload-relative paths
+  detect(diagram: UmlDiagram, fileImports: Array<[string, string]>): UmlCycle[] {
+    return [...this.importCycles(diagram, fileImports), ...this.symbolCycles(diagram)];
+  }
+
+  private importCycles(diagram: UmlDiagram, fileImports: Array<[string, string]>): UmlCycle[] {
+    const fileOf = new Map(diagram.nodes.map(node => [node.id, node.file]));
+
+    return this.components(fileImports).map(files => {
+      const members = new Set(files);
+      const inCycle = (nodeId: string) => members.has(fileOf.get(nodeId) || '');
+
+      return {
+        id: this.cycleId('import', files),
+        kind: 'import' as const,
+        files,
+        nodeIds: diagram.nodes.filter(node => members.has(node.file)).map(node => node.id),
+        edgeIds: diagram.edges
+          .filter(edge => edge.type === 'import' && inCycle(edge.source) && inCycle(edge.target) &&
+            fileOf.get(edge.source) !== fileOf.get(edge.target))
+          .map(edge => edge.id),
+        path: this.closedPath(files, fileImports)
+      };
+    });
+  }
+
+  private symbolCycles(diagram: UmlDiagram): UmlCycle[] {
+    const nodes = new Map(diagram.nodes.map(node => [node.id, node]));
+    const edges = diagram.edges.filter(edge => SYMBOL_EDGE_TYPES.includes(edge.type));
+    const links = edges.map(edge => [edge.source, edge.target] as [string, string]);
+
+    return this.components(links).map(nodeIds => {
+      const members = new Set(nodeIds);
+      return {
+        id: this.cycleId('symbol', nodeIds),
+        kind: 'symbol' as const,
+        files: Array.from(new Set(nodeIds.map(id => nodes.get(id)?.file || ''))).filter(Boolean).sort(),
+        nodeIds,
+        edgeIds: edges.filter(edge => members.has(edge.source) && members.has(edge.target)).map(edge => edge.id),
+        path: this.closedPath(nodeIds, links).map(id => nodes.get(id)?.label || id)
+      };
+    });
+  }
+
+  /**
+   * Tarjan's algorithm, with an explicit stack so long import chains cannot
+   * overflow the call stack. Members come back sorted and components ordered
+   * by their first member, so the result does not depend on edge order.
+   */
+  private components(links: Array<[string, string]>): string[][] {
+    const successors = new Map<string, string[]>();
+    links.forEach(([from, to]) => {
+      if (from === to) return;
+      if (!successors.has(from)) successors.set(from, []);
+      if (!successors.has(to)) successors.set(to, []);
+      successors.get(from)!.push(to);
+    });
+
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const components: string[][] = [];
+
+    const visit = (vertex: string) => {
+      lowLink.set(vertex, index.size);
+      index.set(vertex, index.size);
+      stack.push(vertex);
+      onStack.add(vertex);
+    };
+
+    Array.from(successors.keys()).sort().forEach(root => {
+      if (index.has(root)) return;
+      visit(root);
+      const frames = [{ vertex: root, next: 0 }];
+
+      while (frames.length > 0) {
+        const frame = frames[frames.length - 1];
+        const targets = successors.get(frame.vertex)!;
+
+        if (frame.next < targets.length) {
+          const target = targets[frame.next++];
+          if (!index.has(target)) {
+            visit(target);
+            frames.push({ vertex: target, next: 0 });
+          } else if (onStack.has(target)) {
+            lowLink.set(frame.vertex, Math.min(lowLink.get(frame.vertex)!, index.get(target)!));
+          }
+          continue;
+        }
+
+        frames.pop();
+        const parent = frames[frames.length - 1];
+        if (parent) lowLink.set(parent.vertex, Math.min(lowLink.get(parent.vertex)!, lowLink.get(frame.vertex)!));
+        if (lowLink.get(frame.vertex) !== index.get(frame.vertex)) continue;
+
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.vertex);
+        if (component.length > 1) components.push(component.sort());
+      }
+    });
+
+    return components.sort((a, b) => a[0].localeCompare(b[0]));
+  }
+
+  // Breadth-first from the first member back to itself, staying inside the component
+  private closedPath(members: string[], links: Array<[string, string]>): string[] {
+    const inside = new Set(members);
+    const successors = new Map<string, string[]>();
+    links.forEach(([from, to]) => {
+      if (from === to || !inside.has(from) || !inside.has(to)) return;
+      successors.set(from, [...(successors.get(from) || []), to]);
+    });
+
+    const start = members[0];
+    const previous = new Map<string, string>();
+    const queue = [start];
+    while (queue.length > 0) {
+      const vertex = queue.shift()!;
+      for (const target of successors.get(vertex) || []) {
+        if (target === start) {
+          const path = [start];
+          for (let step: string | undefined = vertex; step && step !== start; step = previous.get(step)) path.splice(1, 0, step);
+          return [...path, start];
+        }
+        if (previous.has(target)) continue;
+        previous.set(target, vertex);
+        queue.push(target);
+      }
+    }
+    return [...members, start];
+  }
+
+  private cycleId(kind: UmlCycle['kind'], members: string[]): string {
+    return createHash('sha1').update(`cycle:${kind}:${members.join('|')}`).digest('hex').slice(0, 16);
+  }
+}
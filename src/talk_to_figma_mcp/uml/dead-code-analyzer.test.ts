@@ -0,0 +1,66 @@
+import { describe, expect, test } from 'bun:test';
+import { Project } from 'ts-morph';
+import { DeadCodeAnalyzer } from './dead-code-analyzer.js';
+import { Dependency } from './types.js';
+
+const FILES: Record<string, string> = {
+  '/app/main.ts': `
+    import { used, Service } from './lib';
+    export const entryExport = 1;
+    new Service().run(used());
+  `,
+  '/app/lib.ts': `
+    export function used() { return 1; }
+    export function unused() { return 2; }
+    export { unused as alias };
+    export class Service {
+      private count = 0;
+      private stale = 0;
+      #hidden = 1;
+      constructor(private readonly repo: string, private spare: string) {}
+      private get total() { return this.count; }
+      private set total(value: number) { this.count = value; }
+      @Inject() private injected?: string;
+      run(value: number) { this.total = value + this.repo.length; }
+    }
+    function Inject(): PropertyDecorator { return () => {}; }
+  `,
+  '/app/orphan.ts': `
+    export const lonely = 1;
+  `
+};
+
+describe('DeadCodeAnalyzer', () => {
+  const project = new Project({ useInMemoryFileSystem: true, compilerOptions: { experimentalDecorators: true } });
+  const sourceFiles = Object.entries(FILES).map(([filePath, content]) => project.createSourceFile(filePath, content));
+  const dependencies: Dependency[] = [
+    { from: '/app/main.ts', to: '/app/lib.ts', kind: 'import' },
+    { from: '/app/main.ts', to: 'used', kind: 'calls', fromSymbol: 'main', toFile: '/app/lib.ts', toSymbol: 'used' }
+  ];
+
+  const report = new DeadCodeAnalyzer().analyze(sourceFiles, Object.keys(FILES), dependencies, ['/app/main.ts']);
+
+  test('reports exports no other file uses, but never an entry point\'s', () => {
+    expect(report.unusedExports.map(entry => `${entry.file} ${entry.exportName}→${entry.symbol}`).sort()).toEqual([
+      '/app/lib.ts alias→unused',
+      '/app/lib.ts unused→unused',
+      '/app/orphan.ts lonely→lonely'
+    ]);
+  });
+
+  test('reports private members used nowhere, skipping decorated ones and counting accessor pairs once', () => {
+    expect(report.unusedPrivateMembers.map(entry => `${entry.symbol}.${entry.member}`).sort()).toEqual([
+      'Service.#hidden',
+      'Service.spare',
+      'Service.stale'
+    ]);
+  });
+
+  test('reports files no entry point reaches', () => {
+    expect(report.unreachableFiles).toEqual(['/app/orphan.ts']);
+  });
+
+  test('reports no unreachable files without entry points', () => {
+    expect(new DeadCodeAnalyzer().analyze([], Object.keys(FILES), dependencies, []).unreachableFiles).toEqual([]);
+  });
+});
@@ -0,0 +1,142 @@
+import {
+  Node,
+  SourceFile,
+  SyntaxKind,
+  ClassDeclaration
+} from 'ts-morph';
+import { Dependency, DeadCodeReport } from './types.js';
+
+/**
+ * Finds code nothing uses, in three passes:
+ *
+ * - exports no other file references, checked with the language service's
+ *   `findReferences` unless no analyzed file imports the module at all;
+ * - private class members referenced nowhere besides their declaration;
+ * - files no entry point reaches through the resolved dependency graph.
+ *
+ * Entry files are public API, so their exports are never reported. Members
+ * with decorators are left alone, since frameworks call those by reflection.
+ */
+export class DeadCodeAnalyzer {
+  analyze(
+    sourceFiles: SourceFile[],
+    files: string[],
+    dependencies: Dependency[],
+    entryPoints: string[]
+  ): DeadCodeReport {
+    const importers = new Map<string, Set<string>>();
+    const targets = new Map<string, Set<string>>();
+    dependencies.forEach(dep => {
+      const to = dep.toFile || (dep.kind === 'import' && !dep.fromSymbol ? dep.to : undefined);
+      if (!to || to === dep.from) return;
+      if (!importers.has(to)) importers.set(to, new Set());
+      if (!targets.has(dep.from)) targets.set(dep.from, new Set());
+      importers.get(to)!.add(dep.from);
+      targets.get(dep.from)!.add(to);
+    });
+
+    const entries = new Set(entryPoints);
+    const report: DeadCodeReport = {
+      entryPoints,
+      unusedExports: [],
+      unusedPrivateMembers: [],
+      unreachableFiles: entryPoints.length > 0 ? this.unreachableFiles(files, entries, targets) : []
+    };
+
+    sourceFiles.forEach(sourceFile => {
+      const filePath = sourceFile.getFilePath();
+      if (!entries.has(filePath)) {
+        report.unusedExports.push(...this.unusedExports(sourceFile, importers.has(filePath)));
+      }
+      sourceFile.getClasses().forEach(cls => report.unusedPrivateMembers.push(...this.unusedPrivateMembers(cls)));
+    });
+
+    return report;
+  }
+
+  private unreachableFiles(files: string[], entries: Set<string>, targets: Map<string, Set<string>>): string[] {
+    const reached = new Set(entries);
+    const queue = Array.from(entries);
+    while (queue.length > 0) {
+      targets.get(queue.shift()!)?.forEach(target => {
+        if (reached.has(target)) return;
+        reached.add(target);
+        queue.push(target);
+      });
+    }
+    return files.filter(file => !reached.has(file));
+  }
+
+  private unusedExports(sourceFile: SourceFile, imported: boolean): DeadCodeReport['unusedExports'] {
+    const filePath = sourceFile.getFilePath();
+    const unused: DeadCodeReport['unusedExports'] = [];
+
+    sourceFile.getExportedDeclarations().forEach((declarations, exportName) => {
+      // Re-exports are judged in the file that declares them
+      const local = declarations.filter(decl => decl.getSourceFile() === sourceFile);
+      if (local.length === 0) return;
+
+      const usedElsewhere = imported && local.some(decl => {
+        const nameNode = this.nameNode(decl);
+        return !!nameNode && this.references(nameNode).some(ref => ref.getSourceFile().getFilePath() !== filePath);
+      });
+      if (usedElsewhere) return;
+
+      const nameNode = this.nameNode(local[0]);
+      unused.push({
+        file: filePath,
+        symbol: nameNode?.getText() || exportName,
+        exportName,
+        line: local[0].getStartLineNumber()
+      });
+    });
+
+    return unused;
+  }
+
+  private unusedPrivateMembers(cls: ClassDeclaration): DeadCodeReport['unusedPrivateMembers'] {
+    const owner = cls.getName();
+    if (!owner) return [];
+
+    const members = [
+      ...cls.getProperties(),
+      ...cls.getMethods(),
+      ...cls.getGetAccessors(),
+      ...cls.getSetAccessors(),
+      ...cls.getConstructors().flatMap(ctor => ctor.getParameters().filter(param => param.isParameterProperty()))
+    ];
+
+    const unused: DeadCodeReport['unusedPrivateMembers'] = [];
+    const seen = new Set<string>();
+    members.forEach(member => {
+      const nameNode = member.getNameNode();
+      const isPrivate = member.hasModifier(SyntaxKind.PrivateKeyword) || Node.isPrivateIdentifier(nameNode);
+      if (!isPrivate || member.getDecorators().length > 0) return;
+
+      // A get/set pair is one member; either half being used keeps both
+      const name = nameNode.getText();
+      if (seen.has(name)) return;
+      seen.add(name);
+
+      if (this.references(nameNode).length === 0) {
+        unused.push({ file: cls.getSourceFile().getFilePath(), symbol: owner, member: name, line: member.getStartLineNumber() });
+      }
+    });
+
+    return unused;
+  }
+
+  // Uses of a declaration, through aliases; imports, re-exports and the other half of an accessor pair are declarations, not uses
+  private references(nameNode: Node): Node[] {
+    if (!Node.isReferenceFindable(nameNode)) return [];
+    return nameNode.findReferences()
+      .flatMap(symbol => symbol.getReferences())
+      .filter(reference => !reference.isDefinition())
+      .map(reference => reference.getNode());
+  }
+
+  private nameNode(declaration: Node): Node | undefined {
+    if (Node.isVariableDeclaration(declaration)) return declaration.getNameNode();
+    return (declaration as { getNameNode?: () => Node | undefined }).getNameNode?.();
+  }
+}
@@ -0,0 +1,201 @@
+import {
+  Node,
+  SourceFile,
+  ClassDeclaration,
+  Decorator,
+  ParameterDeclaration
+} from 'ts-morph';
+import { CodeSymbol, Dependency } from './types.js';
+
+// NestJS, Angular and InversifyJS class decorators and the role they give a class
+const STEREOTYPE_DECORATORS: Record<string, string> = {
+  Module: 'module',
+  NgModule: 'module',
+  Controller: 'controller',
+  Injectable: 'injectable',
+  injectable: 'injectable',
+  Component: 'component',
+  Directive: 'directive',
+  Pipe: 'pipe',
+  Resolver: 'resolver',
+  WebSocketGateway: 'gateway'
+};
+// Module metadata whose entries belong to the module; `imports` links modules together
+const CONTAINED_OPTIONS = ['controllers', 'providers', 'declarations'];
+const ROUTE_DECORATORS = ['Get', 'Post', 'Put', 'Patch', 'Delete', 'Options', 'Head', 'All'];
+const INJECT_DECORATORS = ['Inject', 'inject'];
+
+interface DeclarationRef {
+  name: string;
+  file: string;
+}
+
+/**
+ * Reads dependency injection framework metadata (NestJS, Angular, InversifyJS).
+ *
+ * `annotate` runs while a class symbol is extracted: it records the class's
+ * stereotype, turns `@Module`/`@NgModule` classes into `module` symbols and
+ * tags controller methods with their HTTP route. `analyze` then emits the
+ * module's `contains` and `import` dependencies and an `injects` dependency
+ * for every constructor parameter the container fills in.
+ */
+export class DecoratorAnalyzer {
+  annotate(cls: ClassDeclaration, symbol: CodeSymbol): void {
+    const stereotype = this.stereotype(cls);
+    if (!stereotype) return;
+
+    symbol.stereotype = stereotype;
+    if (stereotype === 'module') symbol.kind = 'module';
+
+    const controller = cls.getDecorator('Controller');
+    if (!controller) return;
+
+    const prefix = this.routePath(controller);
+    symbol.methods?.forEach(method => {
+      const route = cls.getMethod(method.name)?.getDecorators().find(d => ROUTE_DECORATORS.includes(d.getName()));
+      if (route) method.route = `${route.getName().toUpperCase()} ${this.joinPath(prefix, this.routePath(route))}`;
+    });
+  }
+
+  analyze(sourceFile: SourceFile, symbols: CodeSymbol[]): Dependency[] {
+    const dependencies: Dependency[] = [];
+    const filePath = sourceFile.getFilePath();
+
+    sourceFile.getClasses().forEach(cls => {
+      const name = cls.getName();
+      const symbol = symbols.find(s => s.name === name && s.stereotype);
+      if (!name || !symbol) return;
+
+      const moduleDecorator = cls.getDecorators().find(d => STEREOTYPE_DECORATORS[d.getName()] === 'module');
+      if (moduleDecorator) {
+        CONTAINED_OPTIONS.forEach(option => {
+          this.optionEntries(moduleDecorator, option).forEach(({ ref, line }) => dependencies.push({
+            from: filePath,
+            to: ref.name,
+            kind: 'contains',
+            fromSymbol: name,
+            fromMember: option,
+            toFile: ref.file,
+            toSymbol: ref.name,
+            line
+          }));
+        });
+        this.optionEntries(moduleDecorator, 'imports').forEach(({ ref, line }) => dependencies.push({
+          from: filePath,
+          to: ref.name,
+          kind: 'import',
+          fromSymbol: name,
+          toFile: ref.file,
+          toSymbol: ref.name,
+          line
+        }));
+      }
+
+      cls.getConstructors().forEach(ctor => {
+        ctor.getParameters().forEach(param => {
+          const ref = this.injectedDeclaration(param);
+          if (!ref) return;
+          dependencies.push({
+            from: filePath,
+            to: ref.name,
+            kind: 'injects',
+            fromSymbol: name,
+            fromMember: param.getName(),
+            toFile: ref.file,
+            toSymbol: ref.name,
+            line: param.getStartLineNumber()
+          });
+        });
+      });
+    });
+
+    return dependencies;
+  }
+
+  private stereotype(cls: ClassDeclaration): string | undefined {
+    const decorator = cls.getDecorators().find(d => STEREOTYPE_DECORATORS[d.getName()]);
+    return decorator && STEREOTYPE_DECORATORS[decorator.getName()];
+  }
+
+  /**
+   * Entries of an array option such as `providers: [UsersService]`. Custom
+   * providers (`{ provide: TOKEN, useClass: Impl }`) resolve to their
+   * implementation, `forwardRef(() => X)` to `X`; dynamic modules like
+   * `TypeOrmModule.forFeature(...)` and spreads have no in-tree declaration.
+   */
+  private optionEntries(decorator: Decorator, option: string): Array<{ ref: DeclarationRef; line: number }> {
+    const options = decorator.getArguments().find(Node.isObjectLiteralExpression);
+    const property = options?.getProperty(option);
+    const list = Node.isPropertyAssignment(property) ? property.getInitializer() : undefined;
+    if (!Node.isArrayLiteralExpression(list)) return [];
+
+    const entries: Array<{ ref: DeclarationRef; line: number }> = [];
+    list.getElements().forEach(element => {
+      const ref = this.declarationFromExpression(element);
+      if (ref) entries.push({ ref, line: element.getStartLineNumber() });
+    });
+    return entries;
+  }
+
+  private declarationFromExpression(expression: Node | undefined): DeclarationRef | undefined {
+    if (Node.isIdentifier(expression)) return this.declarationFromIdentifier(expression);
+    if (Node.isArrowFunction(expression)) return this.declarationFromExpression(expression.getBody());
+
+    if (Node.isCallExpression(expression) && expression.getExpression().getText() === 'forwardRef') {
+      return this.declarationFromExpression(expression.getArguments()[0]);
+    }
+
+    if (Node.isObjectLiteralExpression(expression)) {
+      for (const key of ['useClass', 'useExisting', 'provide']) {
+        const property = expression.getProperty(key);
+        const ref = Node.isPropertyAssignment(property) ?
+          this.declarationFromExpression(property.getInitializer()) : undefined;
+        if (ref) return ref;
+      }
+    }
+
+    return undefined;
+  }
+
+  // Classes, interfaces and injection token constants declared in analyzed source
+  private declarationFromIdentifier(identifier: Node): DeclarationRef | undefined {
+    const symbol = identifier.getSymbol();
+    const target = symbol?.isAlias() ? symbol.getAliasedSymbol() : symbol;
+    const declaration = target?.getDeclarations().find(d =>
+      Node.isClassDeclaration(d) || Node.isInterfaceDeclaration(d) || Node.isVariableDeclaration(d)
+    );
+    if (!declaration) return undefined;
+
+    const sourceFile = declaration.getSourceFile();
+    if (sourceFile.isDeclarationFile() || sourceFile.isInNodeModules()) return undefined;
+
+    const name = (declaration as ClassDeclaration).getName();
+    return name ? { name, file: sourceFile.getFilePath() } : undefined;
+  }
+
+  // `@Inject(TOKEN)` wins over the parameter's declared type
+  private injectedDeclaration(param: ParameterDeclaration): DeclarationRef | undefined {
+    const inject = param.getDecorators().find(d => INJECT_DECORATORS.includes(d.getName()));
+    if (inject) return this.declarationFromExpression(inject.getArguments()[0]);
+
+    const typeNode = param.getTypeNode();
+    if (!Node.isTypeReference(typeNode)) return undefined;
+    return this.declarationFromIdentifier(typeNode.getTypeName());
+  }
+
+  // `@Controller('users')`, `@Controller({ path: 'users' })`, `@Get(':id')`, `@Get(['a', 'b'])`
+  private routePath(decorator: Decorator): string {
+    let [first] = decorator.getArguments();
+    if (Node.isObjectLiteralExpression(first)) {
+      const path = first.getProperty('path');
+      first = Node.isPropertyAssignment(path) ? path.getInitializer() : undefined;
+    }
+    if (Node.isArrayLiteralExpression(first)) first = first.getElements()[0];
+    return Node.isStringLiteral(first) || Node.isNoSubstitutionTemplateLiteral(first) ? first.getLiteralValue() : '';
+  }
+
+  private joinPath(prefix: string, path: string): string {
+    const segments = [prefix, path].flatMap(part => part.split('/')).filter(Boolean);
+    return `/${segments.join('/')}`;
+  }
+}
@@ -0,0 +1,53 @@
+import { describe, expect, test } from 'bun:test';
+import { ErdUmlBuilder } from './erd-uml-builder.js';
+import { AnalysisResult, CodeSymbol, Dependency } from './types.js';
+
+const ROOT = '/repo';
+const DIRECTORY = { name: 'repo', path: ROOT, kind: 'dir' as const };
+
+const symbol = (name: string, kind: CodeSymbol['kind'], line: number, file = '/repo/src/foo.ts'): CodeSymbol =>
+  ({ name, kind, file, line, column: 0 });
+
+const build = (symbols: CodeSymbol[], dependencies: Dependency[] = []) => {
+  const result: AnalysisResult = { symbols, dependencies, files: Array.from(new Set(symbols.map(s => s.file))), errors: [] };
+  return new ErdUmlBuilder().buildUmlDiagram(result, DIRECTORY, ROOT).diagram;
+};
+
+describe('ErdUmlBuilder', () => {
+  test('node ids do not depend on the order symbols arrive in', () => {
+    const first = symbol('handler', 'function', 3);
+    const redefined = symbol('handler', 'function', 12);
+    const other = symbol('Other', 'class', 20, '/repo/src/other.ts');
+
+    const ids = (symbols: CodeSymbol[]) => Object.fromEntries(build(symbols).nodes.map(node => [`${node.file}:${node.label}:${node.line}`, node.id]));
+
+    const forward = ids([first, redefined, other]);
+    expect(ids([other, redefined, first])).toEqual(forward);
+    expect(forward['src/foo.ts:handler:12']).toBe(`${forward['src/foo.ts:handler:3']}-2`);
+  });
+
+  test('wires type and value edges to the matching node of a shared name', () => {
+    const { nodes, edges } = build(
+      [symbol('Foo', 'interface', 1), symbol('Foo', 'variable', 2), symbol('Bar', 'class', 1, '/repo/src/bar.ts')],
+      [
+        { from: '/repo/src/bar.ts', to: 'Foo', kind: 'implements', fromSymbol: 'Bar', toFile: '/repo/src/foo.ts', toSymbol: 'Foo' },
+        { from: '/repo/src/bar.ts', to: 'Foo', kind: 'calls', fromSymbol: 'Bar', toFile: '/repo/src/foo.ts', toSymbol: 'Foo' }
+      ]
+    );
+
+    const kindOf = new Map(nodes.map(node => [node.id, node.kind]));
+    expect(edges.map(edge => `${edge.type} ${kindOf.get(edge.target)}`)).toEqual(['implements interface', 'calls variable']);
+  });
+
+  test('repeated imports between two files make one edge', () => {
+    const importOf = (line: number): Dependency =>
+      ({ from: '/repo/src/bar.ts', to: '/repo/src/foo.ts', kind: 'import', specifier: './foo', line });
+    const { edges } = build(
+      [symbol('Foo', 'class', 1), symbol('Bar', 'class', 1, '/repo/src/bar.ts')],
+      [importOf(1), importOf(2)]
+    );
+
+    expect(edges).toHaveLength(1);
+    expect(edges[0].id).not.toContain('-');
+  });
+});
@@ -1,9 +1,39 @@
-import { v4 as uuidv4 } from 'uuid';
-import { UmlDiagram, UmlNode, UmlEdge, FileToUmlMap, CodeSymbol, AnalysisResult, UmlPayload, DirNode } from './types.js';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { CycleDetector } from './cycle-detector.js';
+import { ArchitectureRules } from './architecture-rules.js';
+import { UmlDiagram, UmlNode, UmlEdge, FileToUmlMap, CodeSymbol, AnalysisResult, UmlPayload, DirNode, Dependency, DiffSummary, DeadCodeReport, MemberModifiers, MemberVisibility, SymbolProperty, SymbolMethod, TypeParameter } from './types.js';
 
+const VISIBILITY_MARKS: Record<MemberVisibility, string> = {
+  public: '+',
+  protected: '#',
+  private: '-'
+};
+
+// Dependencies on a type rather than a value, for telling `type Foo` from `const Foo`
+const TYPE_DEPENDENCY_KINDS = ['extends', 'implements', 'references', 'relation', 'generates'];
+const TYPE_SYMBOL_KINDS: Array<CodeSymbol['kind']> = ['class', 'interface', 'type', 'enum', 'table'];
+
+const METHOD_STEREOTYPES: Record<NonNullable<SymbolMethod['kind']>, string> = {
+  constructor: '«create»',
+  get: '«get»',
+  set: '«set»'
+};
+
+/**
+ * Turns an analysis into a UML payload. Node ids are derived from the file
+ * path relative to the root, symbol name and kind, edge ids from their
+ * endpoints, type and members, so they survive regeneration; paths in the
+ * payload are relative to `rootPath` so it can move between machines.
+ */
 export class ErdUmlBuilder {
-  private nodeIdMap = new Map<string, string>();
-  private symbolToNodeMap = new Map<string, string>();
+  private rootPath = '';
+  // `${file}:${name}` to the nodes of that name; a type and a value may share one
+  private nodeIdMap = new Map<string, Array<{ kind: CodeSymbol['kind']; id: string }>>();
+  private moduleNodeIds = new Map<string, string>();
+  // `${file}:${name}` of route symbols to their full method and path
+  private routeLabels = new Map<string, string>();
+  private cycleDetector = new CycleDetector();
 
   buildUmlDiagram(analysisResult: AnalysisResult, directory: DirNode, rootPath: string): UmlPayload {
     const nodes: UmlNode[] = [];
@@ -11,26 +41,43 @@ export class ErdUmlBuilder {
     const mapping: FileToUmlMap = {};
 
     // Clear previous mappings
+    this.rootPath = rootPath;
     this.nodeIdMap.clear();
-    this.symbolToNodeMap.clear();
+    this.moduleNodeIds.clear();
+    this.routeLabels.clear();
 
     // Create nodes from symbols
+    const occurrences = this.symbolOccurrences(analysisResult.symbols);
     analysisResult.symbols.forEach(symbol => {
-      const node = this.createNodeFromSymbol(symbol);
+      const node = this.createNodeFromSymbol(symbol, occurrences.get(symbol)!);
       nodes.push(node);
       
       // Update mapping
-      if (!mapping[symbol.file]) {
-        mapping[symbol.file] = { symbols: [], nodeIds: [] };
+      if (!mapping[node.file]) {
+        mapping[node.file] = { symbols: [], nodeIds: [] };
       }
-      mapping[symbol.file].symbols.push(symbol.name);
-      mapping[symbol.file].nodeIds.push(node.id);
+      mapping[node.file].symbols.push(symbol.name);
+      mapping[node.file].nodeIds.push(node.id);
     });
 
-    // Create edges from dependencies
+    // Create edges from dependencies, marking the ones that break an architecture rule
+    const violations = new Map((analysisResult.violations || []).map(v => [ArchitectureRules.dependencyKey({ ...v, from: v.file }), v.rule]));
+    const edgeById = new Map<string, UmlEdge>();
     analysisResult.dependencies.forEach(dep => {
       const edge = this.createEdgeFromDependency(dep, analysisResult.symbols);
-      if (edge) {
+      if (!edge) return;
+      edge.violation = violations.get(ArchitectureRules.dependencyKey({ ...dep, target: dep.toFile || dep.to }));
+
+      // Dependencies with one identity, e.g. two imports between the same files, make one edge
+      const existing = edgeById.get(edge.id);
+      if (existing) {
+        if (existing.count && edge.count) existing.count += edge.count;
+        existing.violation = existing.violation || edge.violation;
+        return;
+      }
+      edgeById.set(edge.id, edge);
+
+      if (!this.mergeInverseRelation(edges, edge)) {
         edges.push(edge);
       }
     });
@@ -38,79 +85,348 @@ export class ErdUmlBuilder {
     // Create module nodes for files without explicit symbols
     this.createModuleNodes(analysisResult, nodes, mapping);
 
+    this.addFanMetrics(nodes, edges);
+    if (analysisResult.deadCode) this.markDeadCode(nodes, analysisResult.deadCode);
+
     const diagram: UmlDiagram = { nodes, edges };
+
+    // Import cycles are found between files, whether or not their import edges made it into the diagram
+    const fileImports = analysisResult.dependencies
+      .filter(dep => dep.kind === 'import' && !dep.fromSymbol)
+      .map(dep => [this.relativePath(dep.from), this.relativePath(dep.to)] as [string, string]);
+    diagram.cycles = this.cycleDetector.detect(diagram, fileImports);
     
     const payload: UmlPayload = {
       diagram,
       mapping,
-      directory,
+      directory: this.relativeDirectory(directory),
       metadata: {
         generatedAt: new Date().toISOString(),
         totalFiles: analysisResult.files.length,
         totalSymbols: analysisResult.symbols.length,
-        rootPath
+        rootPath,
+        filters: analysisResult.filterStats,
+        diff: analysisResult.diff && this.relativeDiff(analysisResult.diff)
       }
     };
 
     return payload;
   }
 
-  private createNodeFromSymbol(symbol: CodeSymbol): UmlNode {
-    const nodeId = uuidv4();
+  // Fan-in and fan-out count distinct neighbors, so ten calls to one service are one dependency
+  private addFanMetrics(nodes: UmlNode[], edges: UmlEdge[]): void {
+    const sources = new Map<string, Set<string>>();
+    const targets = new Map<string, Set<string>>();
+    edges.forEach(edge => {
+      if (!sources.has(edge.target)) sources.set(edge.target, new Set());
+      if (!targets.has(edge.source)) targets.set(edge.source, new Set());
+      sources.get(edge.target)!.add(edge.source);
+      targets.get(edge.source)!.add(edge.target);
+    });
+
+    nodes.forEach(node => {
+      node.metrics = {
+        ...node.metrics,
+        fanIn: sources.get(node.id)?.size || 0,
+        fanOut: targets.get(node.id)?.size || 0
+      };
+    });
+  }
+
+  private markDeadCode(nodes: UmlNode[], report: DeadCodeReport): void {
+    const unusedExports = new Set(report.unusedExports.map(entry => `${this.relativePath(entry.file)}:${entry.symbol}`));
+    const unreachableFiles = new Set(report.unreachableFiles.map(file => this.relativePath(file)));
+
+    nodes.forEach(node => {
+      if (unreachableFiles.has(node.file) || unusedExports.has(`${node.file}:${node.symbol}`)) {
+        node.deadCode = true;
+      }
+    });
+  }
+
+  /**
+   * Both sides of a bidirectional ORM relation (`Post.author` N:1 and
+   * `User.posts` 1:N) describe one relationship: fold the second into the first.
+   */
+  private mergeInverseRelation(edges: UmlEdge[], edge: UmlEdge): boolean {
+    if (edge.type !== 'relation') return false;
+
+    const inverse = edges.find(existing =>
+      existing.type === 'relation' &&
+      existing.source === edge.target &&
+      existing.target === edge.source &&
+      (existing.cardinality === this.invertCardinality(edge.cardinality) || this.isManyToManyPair(existing, edge)) &&
+      (!existing.targetMember || existing.targetMember === edge.sourceMember)
+    );
+    if (!inverse) return false;
+
+    if (this.isManyToManyPair(inverse, edge)) inverse.cardinality = 'N:M';
+    inverse.targetMember = edge.sourceMember;
+    inverse.label = this.getRelationLabel(inverse.sourceMember, inverse.targetMember, inverse.cardinality);
+    return true;
+  }
+
+  // Two list sides pointing at each other without a join entity, e.g. across Prisma schema files
+  private isManyToManyPair(a: UmlEdge, b: UmlEdge): boolean {
+    return a.cardinality === '1:N' && b.cardinality === '1:N';
+  }
+
+  private invertCardinality(cardinality: UmlEdge['cardinality']): UmlEdge['cardinality'] {
+    switch (cardinality) {
+      case '1:N': return 'N:1';
+      case 'N:1': return '1:N';
+      default: return cardinality;
+    }
+  }
+
+  private getRelationLabel(sourceMember: string | undefined, targetMember: string | undefined, cardinality: UmlEdge['cardinality']): string {
+    const members = targetMember ? `${sourceMember} ↔ ${targetMember}` : sourceMember;
+    return `${members} ${cardinality}`;
+  }
+
+  // Normalized, `/`-separated path relative to the root
+  private relativePath(filePath: string): string {
+    return path.relative(this.rootPath, filePath).split(path.sep).join('/') || '.';
+  }
+
+  private relativeDirectory(node: DirNode): DirNode {
+    return {
+      ...node,
+      path: this.relativePath(node.path),
+      children: node.children?.map(child => this.relativeDirectory(child))
+    };
+  }
+
+  private relativeDiff(diff: DiffSummary): DiffSummary {
+    const files: DiffSummary['files'] = {};
+    Object.entries(diff.files).forEach(([filePath, status]) => { files[this.relativePath(filePath)] = status; });
+    return { ...diff, files };
+  }
+
+  /**
+   * Short hash of an identity key. The nth declaration sharing a key, e.g. a
+   * redefined Python function, gets a numbered suffix.
+   */
+  private stableId(key: string, occurrence: number = 1): string {
+    const id = createHash('sha1').update(key).digest('hex').slice(0, 16);
+    return occurrence > 1 ? `${id}-${occurrence}` : id;
+  }
+
+  private nodeKey(symbol: CodeSymbol): string {
+    return `node:${this.relativePath(symbol.file)}:${symbol.name}:${symbol.kind}`;
+  }
+
+  // Position of each symbol among those sharing its node key, by declaration order rather than analysis order
+  private symbolOccurrences(symbols: CodeSymbol[]): Map<CodeSymbol, number> {
+    const byKey = new Map<string, CodeSymbol[]>();
+    symbols.forEach(symbol => {
+      const key = this.nodeKey(symbol);
+      byKey.set(key, [...(byKey.get(key) || []), symbol]);
+    });
+
+    const occurrences = new Map<CodeSymbol, number>();
+    byKey.forEach(group => {
+      group
+        .slice()
+        .sort((a, b) => a.line - b.line || a.column - b.column)
+        .forEach((symbol, index) => occurrences.set(symbol, index + 1));
+    });
+    return occurrences;
+  }
+
+  private createNodeFromSymbol(symbol: CodeSymbol, occurrence: number): UmlNode {
+    const file = this.relativePath(symbol.file);
+    const nodeId = this.stableId(this.nodeKey(symbol), occurrence);
     const symbolKey = `${symbol.file}:${symbol.name}`;
     
-    this.nodeIdMap.set(symbolKey, nodeId);
-    this.symbolToNodeMap.set(symbol.name, nodeId);
+    this.nodeIdMap.set(symbolKey, [...(this.nodeIdMap.get(symbolKey) || []), { kind: symbol.kind, id: nodeId }]);
 
     const node: UmlNode = {
       id: nodeId,
-      label: symbol.name,
+      label: symbol.route ? `${symbol.route.method} ${symbol.route.path}` : `${symbol.name}${this.typeParameterList(symbol.typeParameters)}`,
       kind: symbol.kind,
-      file: symbol.file,
+      file,
       symbol: symbol.name,
       line: symbol.line,
-      properties: symbol.properties?.map(p => `${p.name}: ${p.type || 'unknown'}`),
-      methods: symbol.methods?.map(m => 
-        `${m.name}(${m.parameters?.join(', ') || ''}): ${m.returnType || 'void'}`
-      ),
+      properties: symbol.properties?.map(p => this.propertySignature(p)),
+      methods: symbol.methods?.map(m => this.methodSignature(m)),
       imports: symbol.imports?.map(imp => `${imp.name} from ${imp.from}`),
-      exports: symbol.exports
+      exports: symbol.exports,
+      propsType: symbol.component?.propsType,
+      hooks: symbol.component?.hooks,
+      contexts: symbol.component?.contexts,
+      stereotype: symbol.stereotype,
+      isAbstract: symbol.isAbstract,
+      change: symbol.change,
+      doc: symbol.doc,
+      methodDocs: symbol.methods?.some(m => m.doc) ? symbol.methods.map(m => m.doc || null) : undefined
     };
 
+    if (symbol.metrics) {
+      const scored = (symbol.methods || [])
+        .map((method, i) => [node.methods![i], method.complexity] as const)
+        .filter(([, complexity]) => complexity !== undefined);
+      node.metrics = {
+        ...symbol.metrics,
+        fanIn: 0,
+        fanOut: 0,
+        methodComplexity: scored.length > 0 ? Object.fromEntries(scored) : undefined
+      };
+    }
+
+    if (symbol.route) {
+      node.route = { method: symbol.route.method, path: symbol.route.path };
+      this.routeLabels.set(symbolKey, node.label);
+    }
+
+    if (symbol.table) {
+      node.tableName = symbol.table.name;
+      node.columns = symbol.table.columns.map(column =>
+        column.file ? { ...column, file: this.relativePath(column.file) } : column
+      );
+      node.properties = symbol.table.columns.map(column => {
+        const key = column.primaryKey ? 'PK ' : column.references ? 'FK ' : '';
+        const target = column.references ? ` → ${column.references}` : '';
+        return `${key}${column.name}${column.nullable ? '?' : ''}: ${column.type}${target}`;
+      });
+    }
+
     return node;
   }
 
+  // `- {static} count: number {readOnly}`, `«prop» title: string`
+  private propertySignature(property: SymbolProperty): string {
+    const stereotype = property.isProp ? '«prop» ' : '';
+    const optional = property.isOptional ? '?' : '';
+    const readonly = property.isReadonly ? ' {readOnly}' : '';
+    return `${this.memberPrefix(property)}${stereotype}${property.name}${optional}: ${property.type || 'unknown'}${readonly}`;
+  }
+
+  // `GET /users → + find(id): User`, `+ «create» constructor(repo)`, `# {abstract} map<T>(item): T`
+  private methodSignature(method: SymbolMethod): string {
+    const route = method.route ? `${method.route} → ` : '';
+    const stereotype = method.kind ? `${METHOD_STEREOTYPES[method.kind]} ` : '';
+    const name = `${method.name}${this.typeParameterList(method.typeParameters)}${method.isOptional ? '?' : ''}`;
+    const parameters = `(${method.parameters?.join(', ') || ''})`;
+    // Constructors and setters have no return type to show; untyped JavaScript and Python leave it unknown
+    const returnType = method.kind === 'constructor' || method.kind === 'set' || !method.returnType ? '' : `: ${method.returnType}`;
+    return `${route}${this.memberPrefix(method)}${stereotype}${name}${parameters}${returnType}`;
+  }
+
+  // Visibility mark, then `{static}` and `{abstract}`, which the plugin draws underlined and in italics
+  private memberPrefix(member: MemberModifiers): string {
+    return [
+      member.visibility ? VISIBILITY_MARKS[member.visibility] : '',
+      member.isStatic ? '{static}' : '',
+      member.isAbstract ? '{abstract}' : ''
+    ].filter(Boolean).map(part => `${part} `).join('');
+  }
+
+  // Names only, as UML template parameters; bounds and defaults stay on the symbol
+  private typeParameterList(typeParameters: TypeParameter[] | undefined): string {
+    return typeParameters?.length ? `<${typeParameters.map(param => param.name).join(', ')}>` : '';
+  }
+
   private createEdgeFromDependency(
-    dep: { from: string; to: string; kind: string }, 
+    dep: Dependency, 
     symbols: CodeSymbol[]
   ): UmlEdge | null {
+    if (dep.fromSymbol && dep.toSymbol && dep.toFile) {
+      return this.createSymbolEdge(dep);
+    }
+
+    // Symbol targets are resolved during analysis; what is left was reported there
+    if (dep.fromSymbol) return null;
+
+    // File-level dependencies (imports) connect the files' first symbols or module nodes
     const sourceSymbol = symbols.find(s => s.file === dep.from);
-    const targetSymbol = symbols.find(s => s.name === dep.to || s.file === dep.to);
+    const targetSymbol = symbols.find(s => s.file === dep.to);
 
     if (!sourceSymbol && !targetSymbol) return null;
 
     const sourceNodeId = sourceSymbol ? 
-      this.nodeIdMap.get(`${sourceSymbol.file}:${sourceSymbol.name}`) :
+      this.nodeIdFor(sourceSymbol.file, sourceSymbol.name, kind => kind === sourceSymbol.kind) :
       this.getOrCreateFileNode(dep.from);
 
     const targetNodeId = targetSymbol ?
-      this.nodeIdMap.get(`${targetSymbol.file}:${targetSymbol.name}`) ||
-      this.symbolToNodeMap.get(dep.to) :
+      this.nodeIdFor(targetSymbol.file, targetSymbol.name, kind => kind === targetSymbol.kind) :
       this.getOrCreateFileNode(dep.to);
 
     if (!sourceNodeId || !targetNodeId || sourceNodeId === targetNodeId) return null;
 
     const edge: UmlEdge = {
-      id: uuidv4(),
+      id: this.edgeId(sourceNodeId, targetNodeId, dep),
       source: sourceNodeId,
       target: targetNodeId,
       type: dep.kind as UmlEdge['type'],
-      label: this.getEdgeLabel(dep.kind, dep.to)
+      label: dep.kind === 'relation' ? this.getMemberEdgeLabel(dep) : this.getEdgeLabel(dep.kind, dep.to),
+      sourceMember: dep.fromMember,
+      targetMember: dep.toMember,
+      cardinality: dep.cardinality
     };
 
     return edge;
   }
 
+  private createSymbolEdge(dep: Dependency): UmlEdge | null {
+    const isTypeDependency = TYPE_DEPENDENCY_KINDS.includes(dep.kind);
+    const matchesSpace = (kind: CodeSymbol['kind']) => TYPE_SYMBOL_KINDS.includes(kind) === isTypeDependency;
+    const sourceNodeId = this.nodeIdFor(dep.from, dep.fromSymbol!, matchesSpace);
+    const targetNodeId = this.nodeIdFor(dep.toFile!, dep.toSymbol!, matchesSpace);
+
+    if (!sourceNodeId || !targetNodeId || sourceNodeId === targetNodeId) return null;
+
+    return {
+      id: this.edgeId(sourceNodeId, targetNodeId, dep),
+      source: sourceNodeId,
+      target: targetNodeId,
+      type: dep.kind as UmlEdge['type'],
+      label: this.getMemberEdgeLabel(dep),
+      sourceMember: dep.fromMember,
+      targetMember: dep.toMember,
+      count: dep.count,
+      multiplicity: dep.multiplicity,
+      cardinality: dep.cardinality
+    };
+  }
+
+  private edgeId(source: string, target: string, dep: Dependency): string {
+    return this.stableId(`edge:${source}|${dep.kind}|${target}|${dep.fromMember || ''}|${dep.toMember || ''}`);
+  }
+
+  private getMemberEdgeLabel(dep: Dependency): string {
+    if (dep.kind === 'references') {
+      return `${dep.fromMember} ${this.getMultiplicityNotation(dep.multiplicity)}`;
+    }
+    if (dep.kind === 'relation') {
+      return this.getRelationLabel(dep.fromMember, dep.toMember, dep.cardinality);
+    }
+    if (dep.kind === 'contains' || dep.kind === 'injects') {
+      // The module option (`providers`) or the constructor parameter the instance is injected into
+      return dep.fromMember ? `${this.getEdgeLabel(dep.kind, dep.to)} (${dep.fromMember})` : this.getEdgeLabel(dep.kind, dep.to);
+    }
+
+    const base = this.getEdgeLabel(dep.kind, dep.to);
+    if (!dep.fromMember && !dep.toMember) {
+      return dep.count && dep.count > 1 ? `${base} ×${dep.count}` : base;
+    }
+
+    const route = dep.fromMember ? undefined : this.routeLabels.get(`${dep.from}:${dep.fromSymbol}`);
+    const from = route || `${dep.fromMember || dep.fromSymbol}()`;
+    const to = dep.toMember === 'constructor' ? `new ${dep.toSymbol}()` :
+      dep.toMember ? `${dep.toSymbol}.${dep.toMember}()` : `${dep.toSymbol}()`;
+    const count = dep.count && dep.count > 1 ? ` ×${dep.count}` : '';
+    return `${from} → ${to}${count}`;
+  }
+
+  private getMultiplicityNotation(multiplicity: Dependency['multiplicity']): string {
+    switch (multiplicity) {
+      case 'array': return '0..*';
+      case 'optional': return '0..1';
+      default: return '1';
+    }
+  }
+
   private createModuleNodes(
     analysisResult: AnalysisResult, 
     nodes: UmlNode[], 
@@ -118,47 +434,61 @@ export class ErdUmlBuilder {
   ): void {
     // Create module nodes for files that don't have explicit symbols
     analysisResult.files.forEach(filePath => {
-      if (!mapping[filePath] || mapping[filePath].symbols.length === 0) {
+      const file = this.relativePath(filePath);
+      if (!mapping[file] || mapping[file].symbols.length === 0) {
         const moduleNode = this.createModuleNode(filePath);
+        moduleNode.change = analysisResult.diff?.files[filePath];
         nodes.push(moduleNode);
         
-        if (!mapping[filePath]) {
-          mapping[filePath] = { symbols: [], nodeIds: [] };
+        if (!mapping[moduleNode.file]) {
+          mapping[moduleNode.file] = { symbols: [], nodeIds: [] };
         }
-        mapping[filePath].symbols.push(moduleNode.label);
-        mapping[filePath].nodeIds.push(moduleNode.id);
+        mapping[moduleNode.file].symbols.push(moduleNode.label);
+        mapping[moduleNode.file].nodeIds.push(moduleNode.id);
       }
     });
   }
 
   private createModuleNode(filePath: string): UmlNode {
-    const nodeId = uuidv4();
-    const fileName = filePath.split('/').pop()?.replace(/\.(ts|tsx|js|jsx)$/, '') || 'unknown';
+    // Reuse the id handed out to import edges that already target this file
+    const nodeId = this.moduleNodeIds.get(filePath) || this.moduleNodeId(filePath);
+    const fileName = filePath.split('/').pop()?.replace(/\.[^.]+$/, '') || 'unknown';
     
-    const symbolKey = `${filePath}:module`;
-    this.nodeIdMap.set(symbolKey, nodeId);
+    this.moduleNodeIds.set(filePath, nodeId);
 
     return {
       id: nodeId,
       label: fileName,
       kind: 'module',
-      file: filePath,
+      file: this.relativePath(filePath),
       symbol: 'module'
     };
   }
 
   private getOrCreateFileNode(filePath: string): string {
-    const symbolKey = `${filePath}:module`;
-    let nodeId = this.nodeIdMap.get(symbolKey);
+    let nodeId = this.moduleNodeIds.get(filePath);
     
     if (!nodeId) {
-      nodeId = uuidv4();
-      this.nodeIdMap.set(symbolKey, nodeId);
+      nodeId = this.moduleNodeId(filePath);
+      this.moduleNodeIds.set(filePath, nodeId);
     }
     
     return nodeId;
   }
 
+  /**
+   * Node of a symbol by file and name. When several share the name, e.g.
+   * `type Foo` and `const Foo`, the first one `matches` accepts wins.
+   */
+  private nodeIdFor(file: string, name: string, matches: (kind: CodeSymbol['kind']) => boolean): string | undefined {
+    const nodes = this.nodeIdMap.get(`${file}:${name}`) || [];
+    return (nodes.find(node => matches(node.kind)) || nodes[0])?.id;
+  }
+
+  private moduleNodeId(filePath: string): string {
+    return this.stableId(`node:${this.relativePath(filePath)}:module:module`);
+  }
+
   private getEdgeLabel(kind: string, target: string): string {
     switch (kind) {
       case 'import': return 'imports';
@@ -166,11 +496,16 @@ export class ErdUmlBuilder {
       case 'implements': return 'implements';
       case 'calls': return 'calls';
       case 'references': return 'uses';
+      case 'renders': return 'renders';
+      case 'relation': return 'relation';
+      case 'generates': return 'generates';
+      case 'contains': return 'contains';
+      case 'injects': return 'injects';
       default: return kind;
     }
   }
 
-  // Helper method to filter diagram by file
+  // Helper method to filter diagram by file; `filePath` is relative to the payload's root
   static filterDiagramByFile(payload: UmlPayload, filePath: string): UmlPayload {
     const mapping = payload.mapping[filePath];
     if (!mapping) return payload;
@@ -0,0 +1,121 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { ChangeStatus } from './types.js';
+
+const execFileAsync = promisify(execFile);
+
+export interface ChangedFile {
+  // Relative to the analyzed root, on the head side
+  path: string;
+  status: ChangeStatus;
+  // Base-side path of a renamed file
+  oldPath?: string;
+}
+
+/**
+ * Thin wrapper around the git CLI for diff-scoped analysis. Paths are
+ * relative to `rootPath`, which may be a subdirectory of the repository;
+ * changes outside it are ignored.
+ */
+export class GitDiff {
+  constructor(private rootPath: string) {}
+
+  // Commit the head branched off from, so a PR diff ignores what landed on the base since
+  async mergeBase(baseRef: string, headRef?: string): Promise<string> {
+    return (await this.git(['merge-base', baseRef, headRef || 'HEAD'])).trim();
+  }
+
+  /**
+   * Files changed between `base` and `headRef`, or the working tree
+   * (including untracked files) when no head is given.
+   */
+  async changedFiles(base: string, headRef?: string): Promise<ChangedFile[]> {
+    const output = await this.git(['diff', '--name-status', '-z', '-M', '--relative', base, ...(headRef ? [headRef] : [])]);
+    const fields = output.split('\0');
+    const changes: ChangedFile[] = [];
+
+    for (let i = 0; i < fields.length - 1;) {
+      const code = fields[i++];
+      if (code.startsWith('R')) {
+        const oldPath = fields[i++];
+        changes.push({ path: fields[i++], status: 'modified', oldPath });
+      } else if (code.startsWith('C') || code === 'A') {
+        if (code.startsWith('C')) i++;
+        changes.push({ path: fields[i++], status: 'added' });
+      } else if (code === 'D') {
+        changes.push({ path: fields[i++], status: 'deleted' });
+      } else {
+        changes.push({ path: fields[i++], status: 'modified' });
+      }
+    }
+
+    if (!headRef) {
+      const untracked = await this.git(['ls-files', '--others', '--exclude-standard', '-z']);
+      untracked.split('\0').filter(Boolean).forEach(file => changes.push({ path: file, status: 'added' }));
+    }
+
+    return changes;
+  }
+
+  /**
+   * Head-side line ranges touched by the diff, per file. A pure deletion
+   * marks the lines on either side of where it happened.
+   */
+  async changedLines(base: string, headRef?: string): Promise<Map<string, Array<[number, number]>>> {
+    const output = await this.git(['-c', 'core.quotePath=false', 'diff', '-U0', '-M', '--relative', '--no-prefix',
+      base, ...(headRef ? [headRef] : [])]);
+    const ranges = new Map<string, Array<[number, number]>>();
+    let current: Array<[number, number]> | undefined;
+
+    output.split('\n').forEach(line => {
+      if (line.startsWith('+++ ')) {
+        const file = line.slice(4);
+        current = file === '/dev/null' ? undefined : [];
+        if (current) ranges.set(file, current);
+        return;
+      }
+
+      const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
+      if (!hunk || !current) return;
+      const start = Number(hunk[1]);
+      const count = hunk[2] === undefined ? 1 : Number(hunk[2]);
+      current.push(count === 0 ? [start, start + 1] : [start, start + count - 1]);
+    });
+
+    return ranges;
+  }
+
+  /**
+   * Checks `ref` out into a temporary worktree and hands `fn` the directory
+   * matching `rootPath` inside it. The worktree is removed afterwards.
+   */
+  async withCheckout<T>(ref: string, fn: (checkoutRoot: string) => Promise<T>): Promise<T> {
+    const prefix = (await this.git(['rev-parse', '--show-prefix'])).trim();
+    const worktree = await fs.mkdtemp(path.join(os.tmpdir(), 'uml-diff-'));
+
+    try {
+      await this.git(['worktree', 'add', '--detach', '--force', worktree, ref]);
+      return await fn(path.join(worktree, prefix));
+    } finally {
+      try {
+        await this.git(['worktree', 'remove', '--force', worktree]);
+      } catch {
+        // Not registered if `worktree add` failed; the directory still goes
+      }
+      await fs.rm(worktree, { recursive: true, force: true });
+    }
+  }
+
+  private async git(args: string[]): Promise<string> {
+    try {
+      const { stdout } = await execFileAsync('git', args, { cwd: this.rootPath, maxBuffer: 64 * 1024 * 1024 });
+      return stdout;
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr?.trim();
+      throw new Error(`git ${args[0]} failed${stderr ? `: ${stderr}` : ''}`);
+    }
+  }
+}
@@ -0,0 +1,37 @@
+import { describe, expect, test } from 'bun:test';
+import { GlobFilter } from './glob-filter.js';
+
+describe('GlobFilter', () => {
+  describe('directory includes', () => {
+    for (const pattern of ['src/features/', 'src/features']) {
+      test(`"${pattern}" includes every file below the directory`, () => {
+        const filter = new GlobFilter('/repo', [pattern]);
+
+        expect(filter.couldContainIncluded('src')).toBe(true);
+        expect(filter.couldContainIncluded('src/features')).toBe(true);
+        expect(filter.couldContainIncluded('src/features/billing')).toBe(true);
+        expect(filter.couldContainIncluded('lib')).toBe(false);
+
+        expect(filter.evaluateFile('src/features/index.ts')).toEqual({ included: true });
+        expect(filter.evaluateFile('src/features/billing/invoice.ts')).toEqual({ included: true });
+        expect(filter.evaluateFile('src/other.ts')).toEqual({ included: false, notIncluded: true });
+        expect(filter.evaluateFile('src/features-old/index.ts')).toEqual({ included: false, notIncluded: true });
+      });
+    }
+
+    test('a later negated directory takes files back out', () => {
+      const filter = new GlobFilter('/repo', ['src/features/', '!src/features/legacy/']);
+
+      expect(filter.evaluateFile('src/features/index.ts')).toEqual({ included: true });
+      expect(filter.evaluateFile('src/features/legacy/old.ts')).toEqual({ included: false, notIncluded: true });
+    });
+  });
+
+  test('file patterns still match files only', () => {
+    const filter = new GlobFilter('/repo', ['src/*.ts']);
+
+    expect(filter.evaluateFile('src/index.ts')).toEqual({ included: true });
+    expect(filter.evaluateFile('src/nested/index.ts')).toEqual({ included: false, notIncluded: true });
+    expect(filter.couldContainIncluded('src/nested')).toBe(false);
+  });
+});
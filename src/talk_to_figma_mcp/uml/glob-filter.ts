@@ -0,0 +1,223 @@
+import * as path from 'path';
+import { FilterStats } from './types.js';
+
+interface CompiledPattern {
+  source: string;
+  negated: boolean;
+  directoryOnly: boolean;
+  segments: string[];
+  regex: RegExp;
+}
+
+export interface FileDecision {
+  included: boolean;
+  excludedBy?: string;
+  notIncluded?: boolean;
+}
+
+/**
+ * Gitignore-style glob matching for the analyzer walk.
+ *
+ * Patterns are matched against paths relative to the root, using `/` as the
+ * separator. A pattern without a slash matches a basename at any depth, a
+ * leading `/` anchors it to the root and a trailing `/` restricts it to
+ * directories. `**` spans any number of directories and a leading `!` negates
+ * a pattern; within each list the last matching pattern wins. As with
+ * gitignore, a pattern that matches a directory covers every file below it,
+ * as `dir/**` would, and files below an excluded directory cannot be
+ * re-included.
+ */
+export class GlobFilter {
+  private includes: CompiledPattern[];
+  private excludes: CompiledPattern[];
+  private rootPath: string;
+
+  constructor(rootPath: string, includePatterns: string[] = [], excludePatterns: string[] = []) {
+    this.rootPath = rootPath;
+    this.includes = includePatterns.filter(p => p.trim()).map(p => GlobFilter.compile(p));
+    this.excludes = excludePatterns.filter(p => p.trim()).map(p => GlobFilter.compile(p));
+  }
+
+  get includePatterns(): string[] {
+    return this.includes.map(p => p.source);
+  }
+
+  get excludePatterns(): string[] {
+    return this.excludes.map(p => p.source);
+  }
+
+  isEmpty(): boolean {
+    return this.includes.length === 0 && this.excludes.length === 0;
+  }
+
+  relative(absolutePath: string): string {
+    return path.relative(this.rootPath, absolutePath).split(path.sep).join('/');
+  }
+
+  /**
+   * Returns the exclude pattern that prunes this directory, or null if the
+   * walk should descend into it.
+   */
+  directoryExcludedBy(relDir: string): string | null {
+    if (!relDir) return null;
+    return this.lastMatch(this.excludes, relDir, true);
+  }
+
+  /**
+   * Whether any include pattern could match a file below this directory.
+   */
+  couldContainIncluded(relDir: string): boolean {
+    const positives = this.includes.filter(p => !p.negated);
+    if (!relDir || positives.length === 0) return true;
+
+    const dirSegments = relDir.split('/');
+    return positives.some(pattern => GlobFilter.prefixMatches(pattern.segments, dirSegments));
+  }
+
+  evaluateFile(relFile: string): FileDecision {
+    const excludedBy = this.lastMatch(this.excludes, relFile, false);
+    if (excludedBy) {
+      return { included: false, excludedBy };
+    }
+
+    const hasPositiveIncludes = this.includes.some(p => !p.negated);
+    let included = !hasPositiveIncludes;
+    for (const pattern of this.includes) {
+      if (GlobFilter.coversFile(pattern, relFile)) {
+        included = !pattern.negated;
+      }
+    }
+
+    return included ? { included: true } : { included: false, notIncluded: true };
+  }
+
+  createStats(): FilterStats {
+    return {
+      includePatterns: this.includePatterns,
+      excludePatterns: this.excludePatterns,
+      excluded: this.excludes
+        .filter(p => !p.negated)
+        .map(p => ({ pattern: p.source, files: 0, directories: 0 })),
+      notIncluded: 0
+    };
+  }
+
+  private lastMatch(patterns: CompiledPattern[], relPath: string, isDirectory: boolean): string | null {
+    let matchedBy: string | null = null;
+    for (const pattern of patterns) {
+      if (pattern.directoryOnly && !isDirectory) continue;
+      if (pattern.regex.test(relPath)) {
+        matchedBy = pattern.negated ? null : pattern.source;
+      }
+    }
+    return matchedBy;
+  }
+
+  // The file itself, or one of the directories it is in
+  private static coversFile(pattern: CompiledPattern, relFile: string): boolean {
+    if (!pattern.directoryOnly && pattern.regex.test(relFile)) return true;
+
+    const segments = relFile.split('/');
+    for (let i = 1; i < segments.length; i++) {
+      if (pattern.regex.test(segments.slice(0, i).join('/'))) return true;
+    }
+    return false;
+  }
+
+  private static prefixMatches(patternSegments: string[], dirSegments: string[]): boolean {
+    for (let i = 0; i < dirSegments.length; i++) {
+      const segment = patternSegments[i];
+      // The pattern named an ancestor directory, which covers everything below it
+      if (segment === undefined) return true;
+      if (segment === '**') return true;
+      if (!GlobFilter.segmentToRegex(segment).test(dirSegments[i])) return false;
+    }
+    return true;
+  }
+
+  static compile(raw: string): CompiledPattern {
+    let pattern = raw.trim();
+    const negated = pattern.startsWith('!');
+    if (negated) pattern = pattern.slice(1);
+
+    const directoryOnly = pattern.endsWith('/');
+    if (directoryOnly) pattern = pattern.replace(/\/+$/, '');
+
+    if (pattern.startsWith('./')) pattern = pattern.slice(2);
+
+    const anchored = pattern.startsWith('/') || pattern.includes('/');
+    pattern = pattern.replace(/^\/+/, '');
+    if (!anchored) pattern = `**/${pattern}`;
+
+    return {
+      source: raw.trim(),
+      negated,
+      directoryOnly,
+      segments: pattern.split('/'),
+      regex: new RegExp(`^${GlobFilter.globToRegexSource(pattern)}$`)
+    };
+  }
+
+  private static segmentToRegex(segment: string): RegExp {
+    return new RegExp(`^${GlobFilter.globToRegexSource(segment)}$`);
+  }
+
+  private static globToRegexSource(glob: string): string {
+    let out = '';
+    let i = 0;
+
+    while (i < glob.length) {
+      const char = glob[i];
+
+      if (char === '*') {
+        if (glob[i + 1] === '*') {
+          const atStart = i === 0 || glob[i - 1] === '/';
+          const atEnd = i + 2 === glob.length;
+          if (atStart && glob[i + 2] === '/') {
+            out += '(?:.*/)?';
+            i += 3;
+          } else if (atEnd && i > 0 && glob[i - 1] === '/') {
+            // "dir/**" also matches "dir" itself
+            out = out.slice(0, -1) + '(?:/.*)?';
+            i += 2;
+          } else {
+            out += '.*';
+            i += 2;
+          }
+        } else {
+          out += '[^/]*';
+          i++;
+        }
+      } else if (char === '?') {
+        out += '[^/]';
+        i++;
+      } else if (char === '[') {
+        const close = glob.indexOf(']', i + 1);
+        if (close === -1) {
+          out += '\\[';
+          i++;
+        } else {
+          let body = glob.slice(i + 1, close).replace(/\\/g, '\\\\');
+          if (body.startsWith('!')) body = '^' + body.slice(1);
+          out += `[${body}]`;
+          i = close + 1;
+        }
+      } else if (char === '{') {
+        const close = glob.indexOf('}', i + 1);
+        if (close === -1) {
+          out += '\\{';
+          i++;
+        } else {
+          const alternatives = glob.slice(i + 1, close).split(',');
+          out += `(?:${alternatives.map(alt => GlobFilter.globToRegexSource(alt)).join('|')})`;
+          i = close + 1;
+        }
+      } else {
+        out += char.replace(/[.+^$()|\\]/g, '\\$&');
+        i++;
+      }
+    }
+
+    return out;
+  }
+}
@@ -1,4 +1,22 @@
 export * from './types.js';
+export * from './glob-filter.js';
+export * from './babel-analyzer.js';
+export * from './module-resolver.js';
+export * from './analysis-cache.js';
+export * from './git-diff.js';
+export * from './worker-pool.js';
+export * from './react-analyzer.js';
+export * from './orm-analyzer.js';
+export * from './decorator-analyzer.js';
+export * from './route-analyzer.js';
+export * from './language-analyzer.js';
+export * from './python-analyzer.js';
+export * from './prisma-analyzer.js';
+export * from './sql-migration-analyzer.js';
+export * from './dead-code-analyzer.js';
+export * from './architecture-rules.js';
 export * from './code-intake.js';
+export * from './cycle-detector.js';
 export * from './erd-uml-builder.js';
+export * from './uml-diff.js';
 export * from './tools.js';
\ No newline at end of file
@@ -0,0 +1,19 @@
+import { CodeSymbol, Dependency, FileAnalysis } from './types.js';
+import { ResolvedModule } from './module-resolver.js';
+
+/**
+ * Frontend for a language that does not go through the ts-morph project.
+ *
+ * `analyze` turns one file into symbols and dependencies on its own, without
+ * a type checker. Import dependencies carry their raw `specifier`, which is
+ * handed back to `resolveImport` once the full file set is known.
+ */
+export interface LanguageAnalyzer {
+  readonly language: string;
+  readonly extensions: string[];
+  analyze(filePath: string, content: string): FileAnalysis;
+  resolveImport(specifier: string, containingFile: string, rootPath: string): ResolvedModule;
+  // Optional pass over one file once every file's symbols are known, for links
+  // that cannot be made from the file alone
+  linkSymbols?(filePath: string, content: string, symbols: CodeSymbol[]): Dependency[];
+}
@@ -0,0 +1,124 @@
+import * as path from 'path';
+import { ts } from 'ts-morph';
+
+const CONFIG_FILE_NAMES = ['tsconfig.json', 'jsconfig.json'];
+
+export interface ResolvedModule {
+  resolvedPath?: string;
+  external: boolean;
+}
+
+interface LoadedConfig {
+  configPath?: string;
+  options: ts.CompilerOptions;
+}
+
+/**
+ * Resolves import specifiers the way the TypeScript compiler would for the
+ * importing file: the nearest tsconfig.json/jsconfig.json (with `extends`,
+ * `baseUrl` and `paths`) is loaded per directory and cached, `index` barrels
+ * and `.js`-suffixed ESM specifiers of `.ts` sources resolve to real files.
+ */
+export class ModuleResolver {
+  private configByDirectory = new Map<string, LoadedConfig>();
+  private configByPath = new Map<string, LoadedConfig>();
+  private moduleCache = new Map<string, ts.ModuleResolutionCache>();
+
+  /**
+   * Compiler options of the config that governs `filePath` (or a directory).
+   */
+  getConfig(filePath: string, isDirectory = false): LoadedConfig {
+    return this.loadConfigForDirectory(isDirectory ? filePath : path.dirname(filePath));
+  }
+
+  resolve(specifier: string, containingFile: string): ResolvedModule {
+    const config = this.getConfig(containingFile);
+    const cacheKey = config.configPath || '';
+    let cache = this.moduleCache.get(cacheKey);
+    if (!cache) {
+      cache = ts.createModuleResolutionCache(
+        path.dirname(config.configPath || containingFile),
+        fileName => fileName,
+        config.options
+      );
+      this.moduleCache.set(cacheKey, cache);
+    }
+
+    const { resolvedModule } = ts.resolveModuleName(specifier, containingFile, config.options, ts.sys, cache);
+    if (!resolvedModule) {
+      return { external: !this.isLocalSpecifier(specifier, config.options) };
+    }
+
+    return {
+      resolvedPath: path.normalize(resolvedModule.resolvedFileName),
+      external: !!resolvedModule.isExternalLibraryImport
+    };
+  }
+
+  private isLocalSpecifier(specifier: string, options: ts.CompilerOptions): boolean {
+    if (specifier.startsWith('.') || path.isAbsolute(specifier)) return true;
+
+    // Bare specifiers are packages unless a `paths` alias claims them
+    return Object.keys(options.paths || {}).some(pattern => {
+      const star = pattern.indexOf('*');
+      if (star === -1) return specifier === pattern;
+      return specifier.startsWith(pattern.slice(0, star)) && specifier.endsWith(pattern.slice(star + 1));
+    });
+  }
+
+  private loadConfigForDirectory(directory: string): LoadedConfig {
+    const cached = this.configByDirectory.get(directory);
+    if (cached) return cached;
+
+    let config: LoadedConfig | undefined;
+    const configPath = CONFIG_FILE_NAMES
+      .map(name => path.join(directory, name))
+      .find(candidate => ts.sys.fileExists(candidate));
+
+    if (configPath) {
+      config = this.loadConfigFile(configPath);
+    } else {
+      const parent = path.dirname(directory);
+      config = parent !== directory ? this.loadConfigForDirectory(parent) : { options: this.withDefaults({}) };
+    }
+
+    this.configByDirectory.set(directory, config);
+    return config;
+  }
+
+  private loadConfigFile(configPath: string): LoadedConfig {
+    const cached = this.configByPath.get(configPath);
+    if (cached) return cached;
+
+    const { config: raw, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+    let options: ts.CompilerOptions = {};
+
+    if (!error && raw) {
+      // Files are discovered by the analyzer walk, so skip the compiler's own directory scan
+      const host: ts.ParseConfigHost = {
+        useCaseSensitiveFileNames: ts.sys.useCaseSensitiveFileNames,
+        readDirectory: () => [],
+        fileExists: ts.sys.fileExists,
+        readFile: ts.sys.readFile
+      };
+      options = ts.parseJsonConfigFileContent(raw, host, path.dirname(configPath), undefined, configPath).options;
+    }
+
+    const config = { configPath, options: this.withDefaults(options) };
+    this.configByPath.set(configPath, config);
+    return config;
+  }
+
+  private withDefaults(options: ts.CompilerOptions): ts.CompilerOptions {
+    // Without an explicit setting the compiler falls back to "classic" for ES modules; only
+    // node16/nodenext imply a sensible resolution of their own
+    const impliesResolution = options.module === ts.ModuleKind.Node16 || options.module === ts.ModuleKind.NodeNext;
+
+    return {
+      ...options,
+      // The analyzer also covers JavaScript sources regardless of the project settings
+      allowJs: true,
+      moduleResolution: options.moduleResolution ?? (impliesResolution ? undefined : ts.ModuleResolutionKind.Node10)
+    };
+  }
+}
@@ -0,0 +1,249 @@
+import {
+  Node,
+  SourceFile,
+  Type,
+  ClassDeclaration,
+  Decorator,
+  PropertyDeclaration
+} from 'ts-morph';
+import { Cardinality, CodeSymbol, Dependency, TableColumn } from './types.js';
+
+// TypeORM and MikroORM mark entities with @Entity, sequelize-typescript with @Table
+const ENTITY_DECORATORS = ['Entity', 'Table'];
+const PRIMARY_DECORATORS = ['PrimaryColumn', 'PrimaryGeneratedColumn', 'PrimaryKey', 'ObjectIdColumn', 'SerializedPrimaryKey'];
+const COLUMN_DECORATORS = [
+  'Column', 'Property', 'Enum', 'ForeignKey',
+  'CreateDateColumn', 'UpdateDateColumn', 'DeleteDateColumn', 'VersionColumn',
+  ...PRIMARY_DECORATORS
+];
+const RELATION_DECORATORS: Record<string, Cardinality> = {
+  ManyToOne: 'N:1',
+  BelongsTo: 'N:1',
+  OneToMany: '1:N',
+  HasMany: '1:N',
+  OneToOne: '1:1',
+  HasOne: '1:1',
+  ManyToMany: 'N:M',
+  BelongsToMany: 'N:M'
+};
+
+interface EntityRef {
+  name: string;
+  declaration?: ClassDeclaration;
+}
+
+/**
+ * Turns decorated ORM entity classes (TypeORM, MikroORM, sequelize-typescript)
+ * into `table` symbols with typed columns and primary keys, and emits
+ * `relation` dependencies with cardinality for their relationship properties.
+ */
+export class OrmAnalyzer {
+  analyze(sourceFile: SourceFile, symbols: CodeSymbol[]): Dependency[] {
+    const dependencies: Dependency[] = [];
+
+    sourceFile.getClasses().forEach(cls => {
+      const entityDecorator = cls.getDecorators().find(d => ENTITY_DECORATORS.includes(d.getName()));
+      const name = cls.getName();
+      const symbol = symbols.find(s => s.kind === 'class' && s.name === name);
+      if (!entityDecorator || !name || !symbol) return;
+
+      const columns: TableColumn[] = [];
+      cls.getProperties().forEach(prop => {
+        const relation = this.describeRelation(prop);
+        if (relation) {
+          dependencies.push(this.createRelationDependency(sourceFile.getFilePath(), name, prop, relation));
+          this.addJoinColumn(columns, prop, relation);
+          return;
+        }
+
+        const column = this.describeColumn(prop);
+        if (column) this.addColumn(columns, column);
+      });
+
+      symbol.kind = 'table';
+      symbol.table = { name: this.tableName(entityDecorator) || name, columns };
+    });
+
+    return dependencies;
+  }
+
+  private tableName(decorator: Decorator): string | undefined {
+    const [first] = decorator.getArguments();
+    if (Node.isStringLiteral(first)) return first.getLiteralValue();
+
+    const option = this.option(decorator, 'name') || this.option(decorator, 'tableName') ||
+      this.option(decorator, 'collection');
+    return Node.isStringLiteral(option) ? option.getLiteralValue() : undefined;
+  }
+
+  private describeColumn(prop: PropertyDeclaration): TableColumn | undefined {
+    const decorators = prop.getDecorators().filter(d => COLUMN_DECORATORS.includes(d.getName()));
+    if (decorators.length === 0) return undefined;
+
+    const column: TableColumn = {
+      name: prop.getName(),
+      type: this.columnType(decorators) || prop.getType().getText(prop),
+      line: prop.getStartLineNumber()
+    };
+
+    if (decorators.some(d => PRIMARY_DECORATORS.includes(d.getName()) || this.isTrue(d, 'primary') || this.isTrue(d, 'primaryKey'))) {
+      column.primaryKey = true;
+    }
+    if (prop.hasQuestionToken() || decorators.some(d => this.isTrue(d, 'nullable') || this.isTrue(d, 'allowNull'))) {
+      column.nullable = true;
+    }
+    if (decorators.some(d => this.isTrue(d, 'unique'))) {
+      column.unique = true;
+    }
+
+    // sequelize-typescript: @ForeignKey(() => User) next to @Column
+    const foreignKey = prop.getDecorator('ForeignKey');
+    if (foreignKey) {
+      column.references = this.entityFromArgument(foreignKey.getArguments()[0])?.name;
+    }
+
+    return column;
+  }
+
+  // `@Column('varchar')`, `@Column({ type: 'int' })`, `@Column(DataType.STRING)`
+  private columnType(decorators: Decorator[]): string | undefined {
+    for (const decorator of decorators) {
+      // The argument of @ForeignKey(() => User) is the referenced entity, not a type
+      if (decorator.getName() === 'ForeignKey') continue;
+      const [first] = decorator.getArguments();
+      const type = Node.isObjectLiteralExpression(first) ? this.option(decorator, 'type') : first;
+
+      if (Node.isStringLiteral(type)) return type.getLiteralValue();
+      if (Node.isIdentifier(type) || Node.isPropertyAccessExpression(type)) return type.getText();
+      if (Node.isArrowFunction(type)) return type.getBody().getText();
+    }
+    return undefined;
+  }
+
+  private describeRelation(prop: PropertyDeclaration): { cardinality: Cardinality; target: EntityRef; decorator: Decorator } | undefined {
+    const decorator = prop.getDecorators().find(d => RELATION_DECORATORS[d.getName()]);
+    if (!decorator) return undefined;
+
+    // `() => User`, `'User'`, `{ entity: () => User }`, or else the property's own type
+    const [first] = decorator.getArguments();
+    const target = Node.isObjectLiteralExpression(first) ?
+      this.entityFromArgument(this.option(decorator, 'entity') || this.option(decorator, 'target')) :
+      this.entityFromArgument(first);
+
+    const resolved = target || this.entityFromType(prop.getType());
+    if (!resolved) return undefined;
+
+    return { cardinality: RELATION_DECORATORS[decorator.getName()], target: resolved, decorator };
+  }
+
+  private createRelationDependency(
+    filePath: string,
+    entityName: string,
+    prop: PropertyDeclaration,
+    relation: { cardinality: Cardinality; target: EntityRef; decorator: Decorator }
+  ): Dependency {
+    const { target } = relation;
+    const dependency: Dependency = {
+      from: filePath,
+      to: target.name,
+      kind: 'relation',
+      fromSymbol: entityName,
+      fromMember: prop.getName(),
+      cardinality: relation.cardinality,
+      line: prop.getStartLineNumber()
+    };
+
+    const targetFile = target.declaration?.getSourceFile();
+    if (targetFile && !targetFile.isDeclarationFile() && !targetFile.isInNodeModules()) {
+      dependency.toFile = targetFile.getFilePath();
+      dependency.toSymbol = target.name;
+    }
+
+    // Inverse side, e.g. `user => user.posts` or `{ mappedBy: 'author' }`
+    const inverse = relation.decorator.getArguments()[1] || this.option(relation.decorator, 'mappedBy') ||
+      this.option(relation.decorator, 'inversedBy');
+    if (Node.isArrowFunction(inverse)) {
+      const body = inverse.getBody();
+      if (Node.isPropertyAccessExpression(body)) dependency.toMember = body.getName();
+    } else if (Node.isStringLiteral(inverse)) {
+      dependency.toMember = inverse.getLiteralValue();
+    }
+
+    return dependency;
+  }
+
+  /**
+   * The owning side of a to-one relation holds the foreign key: an explicit
+   * `@JoinColumn`, a matching `<relation>Id` column, or an implied one.
+   */
+  private addJoinColumn(
+    columns: TableColumn[],
+    prop: PropertyDeclaration,
+    relation: { cardinality: Cardinality; target: EntityRef }
+  ): void {
+    const joinColumn = prop.getDecorator('JoinColumn');
+    if (relation.cardinality !== 'N:1' && !joinColumn) return;
+    // sequelize-typescript declares the key itself through @ForeignKey
+    if (prop.getDecorator('BelongsTo')) return;
+
+    const explicitName = joinColumn && this.option(joinColumn, 'name');
+    const name = Node.isStringLiteral(explicitName) ? explicitName.getLiteralValue() : `${prop.getName()}Id`;
+
+    this.addColumn(columns, {
+      name,
+      type: this.primaryKeyType(relation.target.declaration) || 'unknown',
+      nullable: prop.hasQuestionToken() || undefined,
+      references: relation.target.name,
+      line: prop.getStartLineNumber()
+    });
+  }
+
+  private addColumn(columns: TableColumn[], column: TableColumn): void {
+    const existing = columns.find(c => c.name === column.name);
+    if (!existing) {
+      columns.push(column);
+      return;
+    }
+    // A declared column wins over the implied foreign key but keeps what it references
+    const references = existing.references || column.references;
+    if (!column.references) Object.assign(existing, column);
+    existing.references = references;
+  }
+
+  private primaryKeyType(entity: ClassDeclaration | undefined): string | undefined {
+    const primary = entity?.getProperties().find(prop =>
+      prop.getDecorators().some(d => PRIMARY_DECORATORS.includes(d.getName()) || this.isTrue(d, 'primary'))
+    );
+    return primary && (this.columnType(primary.getDecorators()) || primary.getType().getText(primary));
+  }
+
+  private entityFromArgument(argument: Node | undefined): EntityRef | undefined {
+    if (Node.isArrowFunction(argument)) return this.entityFromArgument(argument.getBody());
+    if (Node.isStringLiteral(argument)) return { name: argument.getLiteralValue() };
+    if (Node.isIdentifier(argument)) {
+      const symbol = argument.getSymbol();
+      const target = symbol?.isAlias() ? symbol.getAliasedSymbol() : symbol;
+      const declaration = target?.getDeclarations().find(Node.isClassDeclaration);
+      return { name: declaration?.getName() || argument.getText(), declaration };
+    }
+    return undefined;
+  }
+
+  // `Post[]`, `Collection<Post>`, `Promise<Post>`, `Post`
+  private entityFromType(type: Type): EntityRef | undefined {
+    const elementType = type.getArrayElementType() || type.getTypeArguments()[0] || type;
+    const declaration = elementType.getSymbol()?.getDeclarations().find(Node.isClassDeclaration);
+    const name = declaration?.getName();
+    return name ? { name, declaration } : undefined;
+  }
+
+  private option(decorator: Decorator, name: string): Node | undefined {
+    const options = decorator.getArguments().find(Node.isObjectLiteralExpression);
+    const property = options?.getProperty(name);
+    return Node.isPropertyAssignment(property) ? property.getInitializer() : undefined;
+  }
+
+  private isTrue(decorator: Decorator, name: string): boolean {
+    return this.option(decorator, name)?.getText() === 'true';
+  }
+}
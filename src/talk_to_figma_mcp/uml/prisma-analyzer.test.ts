@@ -0,0 +1,69 @@
+import { describe, expect, test } from 'bun:test';
+import { PrismaAnalyzer } from './prisma-analyzer.js';
+
+const SCHEMA = `enum Role {
+  USER
+  ADMIN
+}
+
+model User {
+  id       Int      @id @default(autoincrement())
+  role     Role
+  posts    Post[]   @relation("authored")
+  pinned   Post?    @relation("pinned")
+  profile  Profile?
+  tags     Tag[]
+}
+
+model Profile {
+  id     Int  @id
+  userId Int  @unique
+  user   User @relation(fields: [userId], references: [id])
+}
+
+model Post {
+  id         Int   @id
+  authorId   Int
+  author     User  @relation("authored", fields: [authorId], references: [id])
+  pinnedBy   User[] @relation("pinned")
+  @@map("posts")
+}
+
+model Tag {
+  id    Int    @id
+  users User[]
+}
+`;
+
+describe('PrismaAnalyzer', () => {
+  const { symbols, dependencies } = new PrismaAnalyzer().analyze('/repo/prisma/schema.prisma', SCHEMA);
+  const relations = Object.fromEntries(dependencies
+    .filter(dep => dep.kind === 'relation')
+    .map(dep => [`${dep.fromSymbol}.${dep.fromMember}`, `${dep.cardinality} ${dep.toSymbol}.${dep.toMember}`]));
+
+  test('reads cardinality from both sides of a relation', () => {
+    expect(relations).toEqual({
+      'User.posts': '1:N Post.author',
+      'User.pinned': 'N:1 Post.pinnedBy',
+      'User.profile': '1:1 Profile.user',
+      'User.tags': 'N:M Tag.users',
+      'Profile.user': '1:1 User.profile',
+      'Post.author': 'N:1 User.posts',
+      'Post.pinnedBy': '1:N User.pinned',
+      'Tag.users': 'N:M User.tags'
+    });
+  });
+
+  test('turns models into tables with keys and leaves relation fields out of the columns', () => {
+    const post = symbols.find(s => s.name === 'Post')!;
+    expect(post.kind).toBe('table');
+    expect(post.table!.name).toBe('posts');
+    expect(post.table!.columns.map(c => `${c.name}${c.primaryKey ? ' PK' : ''}${c.references ? ` → ${c.references}` : ''}`))
+      .toEqual(['id PK', 'authorId → User']);
+  });
+
+  test('links enum fields to the enum', () => {
+    const role = dependencies.find(dep => dep.kind === 'references')!;
+    expect([role.fromSymbol, role.fromMember, role.toSymbol, role.multiplicity]).toEqual(['User', 'role', 'Role', 'single']);
+  });
+});
@@ -0,0 +1,290 @@
+import * as path from 'path';
+import { Cardinality, CodeSymbol, Dependency, FileAnalysis, TableColumn } from './types.js';
+import { LanguageAnalyzer } from './language-analyzer.js';
+import { ResolvedModule } from './module-resolver.js';
+
+interface PrismaField {
+  name: string;
+  type: string;
+  list: boolean;
+  optional: boolean;
+  attributes: string;
+  line: number;
+}
+
+interface PrismaBlock {
+  keyword: string;
+  name: string;
+  line: number;
+  fields: PrismaField[];
+  // `@@id([...])`, `@@map("...")`, ... for models; `key = value` lines for generators
+  attributes: string[];
+}
+
+const SCALAR_TYPES = ['String', 'Boolean', 'Int', 'BigInt', 'Float', 'Decimal', 'DateTime', 'Json', 'Bytes'];
+const BLOCK_START = /^(model|view|type|enum|generator|datasource)\s+(\w+)\s*\{(.*)$/;
+const FIELD = /^(\w+)\s+([\w.]+(?:\([^)]*\))?)(\[\]|\?)?\s*(.*)$/;
+
+/**
+ * Reads Prisma schema files: models and views become `table` symbols with
+ * typed columns and primary keys, composite types and enums their own
+ * symbols, and relation fields `relation` dependencies. Cardinality comes
+ * from both sides of a relation, so two list fields pointing at each other
+ * are recognized as an implicit many-to-many.
+ */
+export class PrismaAnalyzer implements LanguageAnalyzer {
+  readonly language = 'prisma';
+  readonly extensions = ['.prisma'];
+
+  analyze(filePath: string, content: string): FileAnalysis {
+    const blocks = this.parseBlocks(content);
+    const models = new Map(blocks.filter(b => b.keyword === 'model' || b.keyword === 'view').map(b => [b.name, b]));
+    const localTypes = new Set(blocks.filter(b => b.keyword === 'enum' || b.keyword === 'type').map(b => b.name));
+    const symbols: CodeSymbol[] = [];
+    const dependencies: Dependency[] = [];
+
+    blocks.forEach(block => {
+      if (block.keyword === 'enum') {
+        symbols.push({
+          name: block.name,
+          kind: 'enum',
+          file: filePath,
+          line: block.line,
+          column: 0,
+          properties: block.fields.map(field => ({ name: field.name, line: field.line }))
+        });
+      } else if (block.keyword === 'type') {
+        symbols.push({
+          name: block.name,
+          kind: 'type',
+          file: filePath,
+          line: block.line,
+          column: 0,
+          properties: block.fields.map(field => ({ name: field.name, type: this.fieldType(field), line: field.line }))
+        });
+      } else if (models.has(block.name)) {
+        const columns = this.describeColumns(block, models, localTypes);
+        symbols.push({
+          name: block.name,
+          kind: 'table',
+          file: filePath,
+          line: block.line,
+          column: 0,
+          properties: columns.map(column => ({ name: column.name, type: column.type, line: column.line })),
+          table: { name: this.blockMap(block) || block.name, columns }
+        });
+
+        block.fields.forEach(field => {
+          if (this.isRelation(field, models, localTypes)) {
+            dependencies.push(this.createRelationDependency(filePath, block, field, models.get(field.type)));
+          } else if (!this.isScalar(field)) {
+            // Enum and composite type fields; types from other schema files are matched by name
+            const reference: Dependency = {
+              from: filePath,
+              to: field.type,
+              kind: 'references',
+              fromSymbol: block.name,
+              fromMember: field.name,
+              multiplicity: field.list ? 'array' : field.optional ? 'optional' : 'single',
+              line: field.line
+            };
+            if (localTypes.has(field.type)) {
+              reference.toFile = filePath;
+              reference.toSymbol = field.type;
+            }
+            dependencies.push(reference);
+          }
+        });
+      }
+    });
+
+    return { symbols, dependencies };
+  }
+
+  resolveImport(): ResolvedModule {
+    // Prisma schemas have no imports; models in other schema files are matched by name
+    return { external: true };
+  }
+
+  /**
+   * Connects models to the client types generated from them when the
+   * generator `output` points into the analyzed tree.
+   */
+  linkSymbols(filePath: string, content: string, symbols: CodeSymbol[]): Dependency[] {
+    const outputs = this.parseBlocks(content)
+      .filter(block => block.keyword === 'generator')
+      .map(block => this.generatorOutput(block))
+      .filter((output): output is string => !!output)
+      .map(output => path.resolve(path.dirname(filePath), output) + path.sep);
+    if (outputs.length === 0) return [];
+
+    const links: Dependency[] = [];
+    symbols.filter(model => model.file === filePath && model.kind === 'table').forEach(model => {
+      symbols
+        .filter(client => client.name === model.name && outputs.some(output => client.file.startsWith(output)))
+        .forEach(client => links.push({
+          from: filePath,
+          to: client.name,
+          kind: 'generates',
+          fromSymbol: model.name,
+          toFile: client.file,
+          toSymbol: client.name,
+          line: model.line
+        }));
+    });
+    return links;
+  }
+
+  /**
+   * Fields typed with a model. A model defined in another schema file is only
+   * recognizable by its list type or `@relation` attribute; anything else
+   * unknown is taken to be an enum or composite type from that file.
+   */
+  private isRelation(field: PrismaField, models: Map<string, PrismaBlock>, localTypes: Set<string>): boolean {
+    if (models.has(field.type)) return true;
+    if (localTypes.has(field.type) || this.isScalar(field)) return false;
+    return field.list || field.attributes.includes('@relation');
+  }
+
+  private isScalar(field: PrismaField): boolean {
+    return SCALAR_TYPES.includes(field.type) || field.type.startsWith('Unsupported(');
+  }
+
+  private describeColumns(block: PrismaBlock, models: Map<string, PrismaBlock>, localTypes: Set<string>): TableColumn[] {
+    const compositeId = this.blockAttributeList(block, 'id');
+    const foreignKeys = new Map<string, string>();
+    block.fields.forEach(field => {
+      if (!this.isRelation(field, models, localTypes)) return;
+      this.relationFields(field).forEach(name => foreignKeys.set(name, field.type));
+    });
+
+    return block.fields
+      .filter(field => !this.isRelation(field, models, localTypes))
+      .map(field => {
+        const column: TableColumn = { name: field.name, type: this.fieldType(field), line: field.line };
+        if (/@id\b/.test(field.attributes) || compositeId.includes(field.name)) column.primaryKey = true;
+        if (field.optional) column.nullable = true;
+        if (/@unique\b/.test(field.attributes)) column.unique = true;
+        if (foreignKeys.has(field.name)) column.references = foreignKeys.get(field.name);
+        return column;
+      });
+  }
+
+  private createRelationDependency(filePath: string, model: PrismaBlock, field: PrismaField, target?: PrismaBlock): Dependency {
+    // The back-relation field on the other model, matched by relation name when there is one
+    const relationName = this.relationName(field);
+    const back = target?.fields.find(other =>
+      other !== field && other.type === model.name && this.relationName(other) === relationName
+    );
+
+    let cardinality: Cardinality;
+    if (field.list) {
+      cardinality = back?.list ? 'N:M' : '1:N';
+    } else {
+      cardinality = back && !back.list ? '1:1' : 'N:1';
+    }
+
+    const dependency: Dependency = {
+      from: filePath,
+      to: field.type,
+      kind: 'relation',
+      fromSymbol: model.name,
+      fromMember: field.name,
+      toMember: back?.name,
+      cardinality,
+      line: field.line
+    };
+    if (target) {
+      dependency.toFile = filePath;
+      dependency.toSymbol = target.name;
+    }
+    return dependency;
+  }
+
+  private fieldType(field: PrismaField): string {
+    return `${field.type}${field.list ? '[]' : ''}`;
+  }
+
+  // `@relation("Name", ...)` or `@relation(name: "Name", ...)`
+  private relationName(field: PrismaField): string | undefined {
+    const match = field.attributes.match(/@relation\(\s*(?:name\s*:\s*)?"([^"]*)"/);
+    return match?.[1];
+  }
+
+  private relationFields(field: PrismaField): string[] {
+    const match = field.attributes.match(/@relation\([^)]*fields\s*:\s*\[([^\]]*)\]/);
+    return match ? match[1].split(',').map(name => name.trim()).filter(Boolean) : [];
+  }
+
+  private blockMap(block: PrismaBlock): string | undefined {
+    const attribute = block.attributes.find(a => a.startsWith('@@map('));
+    return attribute?.match(/"([^"]*)"/)?.[1];
+  }
+
+  private blockAttributeList(block: PrismaBlock, name: string): string[] {
+    const attribute = block.attributes.find(a => a.startsWith(`@@${name}(`));
+    const list = attribute?.match(/\[([^\]]*)\]/);
+    // Entries may carry arguments, e.g. `@@id([title(sort: Desc), author])`
+    return list ? list[1].split(',').map(entry => entry.trim().split('(')[0]).filter(Boolean) : [];
+  }
+
+  private generatorOutput(block: PrismaBlock): string | undefined {
+    const output = block.attributes.find(a => /^output\s*=/.test(a));
+    return output?.match(/=\s*"([^"]*)"/)?.[1];
+  }
+
+  private parseBlocks(content: string): PrismaBlock[] {
+    const blocks: PrismaBlock[] = [];
+    let current: PrismaBlock | undefined;
+
+    const handle = (text: string, line: number) => {
+      if (!text) return;
+
+      if (!current) {
+        const start = text.match(BLOCK_START);
+        if (start) {
+          current = { keyword: start[1], name: start[2], line, fields: [], attributes: [] };
+          handle(start[3].trim(), line);
+        }
+        return;
+      }
+
+      // The closing brace may share a line with the last entry
+      if (text.endsWith('}')) {
+        handle(text.slice(0, -1).trim(), line);
+        if (current) blocks.push(current);
+        current = undefined;
+      } else if (text.startsWith('@@') || current.keyword === 'generator' || current.keyword === 'datasource') {
+        current.attributes.push(text);
+      } else if (current.keyword === 'enum') {
+        current.fields.push({ name: text.split(/\s+/)[0], type: '', list: false, optional: false, attributes: '', line });
+      } else {
+        const field = text.match(FIELD);
+        if (field) {
+          current.fields.push({
+            name: field[1],
+            type: field[2],
+            list: field[3] === '[]',
+            optional: field[3] === '?',
+            attributes: field[4],
+            line
+          });
+        }
+      }
+    };
+
+    content.split('\n').forEach((raw, index) => handle(this.stripComment(raw).trim(), index + 1));
+
+    return blocks;
+  }
+
+  // `//` and `///` comments, leaving `//` inside string literals alone
+  private stripComment(line: string): string {
+    let inString = false;
+    for (let i = 0; i < line.length; i++) {
+      if (line[i] === '"' && line[i - 1] !== '\\') inString = !inString;
+      else if (!inString && line.startsWith('//', i)) return line.slice(0, i);
+    }
+    return line;
+  }
+}
@@ -0,0 +1,89 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PythonAnalyzer } from './python-analyzer.js';
+
+const SOURCE = `from abc import ABC
+from typing import Generic, TypeVar
+from .base import Model as BaseModel
+
+T = TypeVar("T")
+
+class Repo(BaseModel, Generic[T], metaclass=Meta):
+    """Stores things.
+
+    class NotAClass: ...
+    """
+    table: str = "repos"
+
+    def __init__(self, name: str,
+                 size: int = 0) -> None:
+        self.name = name  # the display name
+        self.size: int = size
+
+    @property
+    def label(self) -> str:
+        return self.name
+
+    @staticmethod
+    def build(*args, **kwargs) -> "Repo":
+        return Repo(*args)
+
+class Failure(ValueError, ABC):
+    pass
+
+def helper(a, b=(1,
+                 2)):
+    return a
+`;
+
+describe('PythonAnalyzer', () => {
+  const { symbols, dependencies } = new PythonAnalyzer().analyze('/repo/pkg/repo.py', SOURCE);
+
+  test('reads classes, members and functions across continued lines and docstrings', () => {
+    expect(symbols.map(s => `${s.kind} ${s.name}:${s.line}`)).toEqual(['class Repo:7', 'class Failure:27', 'function helper:30']);
+
+    const repo = symbols[0];
+    expect(repo.extends).toBe('BaseModel');
+    expect(repo.properties!.map(p => `${p.name}: ${p.type}`)).toEqual(['table: str', 'name: undefined', 'size: int', 'label: str']);
+    expect(repo.methods!.map(m => `${m.name}(${m.parameters.join(', ')}): ${m.returnType}`))
+      .toEqual(['__init__(name, size): None', 'build(*args, **kwargs): "Repo"']);
+    expect(symbols[2].methods![0].parameters).toEqual(['a', 'b']);
+  });
+
+  test('records where each base comes from', () => {
+    const bases = dependencies.filter(dep => dep.kind === 'extends').map(dep => `${dep.fromSymbol} ${dep.to} ${dep.specifier}`);
+    expect(bases).toEqual(['Repo BaseModel .base', 'Repo Generic typing', 'Failure ValueError builtins', 'Failure ABC abc']);
+    expect(dependencies.filter(dep => dep.kind === 'import').map(dep => dep.specifier)).toEqual(['abc', 'typing', '.base']);
+  });
+});
+
+describe('PythonAnalyzer.resolveImport', () => {
+  const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'python-analyzer-'));
+  const root = path.join(tmp, 'repo');
+  const write = (file: string) => {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, '');
+  };
+  write(path.join(root, 'src', 'app', 'models.py'));
+  write(path.join(root, 'src', 'app', 'main.py'));
+  write(path.join(root, 'src', 'app', 'sub', '__init__.py'));
+  // A sibling folder sharing the root's name as a prefix
+  write(path.join(`${root}-old`, 'helpers.py'));
+  afterAll(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+  const analyzer = new PythonAnalyzer();
+  const main = path.join(root, 'src', 'app', 'main.py');
+
+  test('resolves relative and absolute imports inside the root', () => {
+    expect(analyzer.resolveImport('.models', main, root)).toEqual({ resolvedPath: path.join(root, 'src', 'app', 'models.py'), external: false });
+    expect(analyzer.resolveImport('app.sub', main, root)).toEqual({ resolvedPath: path.join(root, 'src', 'app', 'sub', '__init__.py'), external: false });
+  });
+
+  test('does not search folders beside the root', () => {
+    const nested = path.join(`${root}-old`, 'pkg', 'mod.py');
+    expect(analyzer.resolveImport('helpers', nested, root)).toEqual({ external: true });
+    expect(analyzer.resolveImport('abc', main, root)).toEqual({ external: true });
+  });
+});
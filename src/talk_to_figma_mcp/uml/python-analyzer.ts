@@ -0,0 +1,392 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CodeSymbol, Dependency, FileAnalysis } from './types.js';
+import { LanguageAnalyzer } from './language-analyzer.js';
+import { ResolvedModule } from './module-resolver.js';
+
+interface LogicalLine {
+  text: string;
+  line: number;
+  indent: number;
+}
+
+interface Scope {
+  kind: 'class' | 'function';
+  indent: number;
+  // Top-level class a line belongs to, and the name of `self` inside its methods
+  owner?: CodeSymbol;
+  selfName?: string;
+}
+
+const IDENTIFIER = '[A-Za-z_]\\w*';
+
+// Builtin classes a base may name without importing it
+const BUILTIN_BASES = new Set([
+  'Exception', 'BaseException', 'ArithmeticError', 'AttributeError', 'IndexError', 'KeyError',
+  'LookupError', 'NotImplementedError', 'OSError', 'RuntimeError', 'TypeError', 'ValueError',
+  'Warning', 'UserWarning', 'DeprecationWarning', 'dict', 'list', 'set', 'frozenset', 'tuple',
+  'str', 'int', 'float', 'bytes', 'type'
+]);
+
+/**
+ * Line-based Python frontend: top-level classes with their bases, methods and
+ * attributes (class-level and `self.x` assignments), top-level functions and
+ * `import`/`from ... import` statements. Comments and strings are stripped and
+ * bracketed or backslash-continued lines joined before matching, so nothing
+ * beyond the file itself is needed.
+ */
+export class PythonAnalyzer implements LanguageAnalyzer {
+  readonly language = 'python';
+  readonly extensions = ['.py'];
+
+  analyze(filePath: string, content: string): FileAnalysis {
+    const symbols: CodeSymbol[] = [];
+    const dependencies: Dependency[] = [];
+    const scopes: Scope[] = [];
+    // Local name → module it was imported from, for telling package bases from project ones
+    const importedNames = new Map<string, string>();
+    let decorators: string[] = [];
+
+    for (const { text, line, indent } of this.logicalLines(content)) {
+      while (scopes.length > 0 && scopes[scopes.length - 1].indent >= indent) scopes.pop();
+      const scope = scopes[scopes.length - 1];
+
+      if (text.startsWith('@')) {
+        decorators.push(text.slice(1).split('(')[0].trim());
+        continue;
+      }
+      const pendingDecorators = decorators;
+      decorators = [];
+
+      const classMatch = text.match(new RegExp(`^class\\s+(${IDENTIFIER})\\s*`));
+      if (classMatch) {
+        const bases = this.parseBases(text, classMatch[0].length);
+        let owner: CodeSymbol | undefined;
+        if (!scope) {
+          owner = {
+            name: classMatch[1],
+            kind: 'class',
+            file: filePath,
+            line,
+            column: indent,
+            properties: [],
+            methods: [],
+            extends: bases[0]?.split('.').pop()
+          };
+          symbols.push(owner);
+          bases.forEach(base => dependencies.push({
+            from: filePath,
+            to: base.split('.').pop()!,
+            // Dotted for now; the qualifier picks the module below
+            specifier: base,
+            kind: 'extends',
+            fromSymbol: classMatch[1],
+            line
+          }));
+        }
+        scopes.push({ kind: 'class', indent, owner });
+        continue;
+      }
+
+      const defMatch = text.match(new RegExp(`^(?:async\\s+)?def\\s+(${IDENTIFIER})\\s*`));
+      if (defMatch) {
+        const name = defMatch[1];
+        const signature = this.parseSignature(text, defMatch[0].length);
+        const isMethod = scope?.kind === 'class';
+
+        if (!scope) {
+          symbols.push({
+            name,
+            kind: 'function',
+            file: filePath,
+            line,
+            column: indent,
+            methods: [{ name, parameters: signature.parameters, returnType: signature.returnType, line }]
+          });
+        } else if (isMethod && scope.owner) {
+          this.addMember(scope.owner, name, signature, pendingDecorators, line);
+        }
+
+        const isStatic = pendingDecorators.includes('staticmethod');
+        scopes.push({
+          kind: 'function',
+          indent,
+          owner: isMethod && !isStatic ? scope.owner : undefined,
+          selfName: isMethod && !isStatic ? signature.parameters[0] : undefined
+        });
+        continue;
+      }
+
+      const imports = this.parseImport(text);
+      this.parseImportedNames(text).forEach(([name, module]) => importedNames.set(name, module));
+      if (imports) {
+        imports.forEach(specifier => dependencies.push({
+          from: filePath,
+          to: specifier,
+          kind: 'import',
+          specifier,
+          line
+        }));
+        continue;
+      }
+
+      if (scope?.kind === 'class' && scope.owner) {
+        // Class-level attributes: `name: Type = ...`, `name = ...`
+        const attribute = text.match(new RegExp(`^(${IDENTIFIER})\\s*(?::\\s*([^=]+?))?\\s*(?:=(?!=)|$)`));
+        if (attribute && (attribute[2] || text.includes('=')) && !attribute[1].startsWith('__')) {
+          this.addProperty(scope.owner, attribute[1], attribute[2], line);
+        }
+      } else if (scope?.owner && scope.selfName) {
+        // Instance attributes assigned in methods: `self.name: Type = ...`
+        const attribute = text.match(new RegExp(`^${scope.selfName}\\.(${IDENTIFIER})\\s*(?::\\s*([^=]+?))?\\s*=(?!=)`));
+        if (attribute) this.addProperty(scope.owner, attribute[1], attribute[2], line);
+      }
+    }
+
+    // Bases defined in the same file link directly; others are matched by name, and carry
+    // the module they were imported from so that package and builtin bases count as external
+    dependencies.forEach(dep => {
+      if (dep.kind !== 'extends') return;
+      const qualifier = dep.specifier!.split('.')[0];
+      delete dep.specifier;
+      if (symbols.some(s => s.name === dep.to)) {
+        dep.toFile = filePath;
+        dep.toSymbol = dep.to;
+      } else if (importedNames.has(qualifier)) {
+        dep.specifier = importedNames.get(qualifier);
+      } else if (BUILTIN_BASES.has(qualifier)) {
+        dep.specifier = 'builtins';
+      }
+    });
+
+    return { symbols, dependencies };
+  }
+
+  resolveImport(specifier: string, containingFile: string, rootPath: string): ResolvedModule {
+    const dots = specifier.match(/^\.*/)![0].length;
+    const parts = specifier.slice(dots).split('.').filter(Boolean);
+
+    if (dots > 0) {
+      let base = path.dirname(containingFile);
+      for (let i = 1; i < dots; i++) base = path.dirname(base);
+
+      // `from . import name` may name a submodule or something defined in the package itself
+      const resolvedPath = this.findModule(base, parts) ||
+        (parts.length > 0 ? this.findModule(base, parts.slice(0, -1)) : undefined);
+      return { resolvedPath, external: false };
+    }
+
+    // Absolute imports: try the importing directory and its parents up to the root, which
+    // covers both flat layouts and `src/` layouts without knowing the interpreter's sys.path
+    let directory = path.dirname(containingFile);
+    while (this.isWithin(rootPath, directory)) {
+      const resolvedPath = this.findModule(directory, parts);
+      if (resolvedPath) return { resolvedPath, external: false };
+      if (directory === rootPath || directory === path.dirname(directory)) break;
+      directory = path.dirname(directory);
+    }
+
+    // Standard library and installed packages
+    return { external: true };
+  }
+
+  private isWithin(rootPath: string, directory: string): boolean {
+    const relative = path.relative(rootPath, directory);
+    return !relative.startsWith('..') && !path.isAbsolute(relative);
+  }
+
+  private findModule(base: string, parts: string[]): string | undefined {
+    const candidates = [path.join(base, ...parts, '__init__.py')];
+    if (parts.length > 0) candidates.unshift(path.join(base, ...parts) + '.py');
+    return candidates.find(candidate => fs.existsSync(candidate));
+  }
+
+  private addMember(
+    owner: CodeSymbol,
+    name: string,
+    signature: { parameters: string[]; returnType?: string },
+    decorators: string[],
+    line: number
+  ): void {
+    if (decorators.includes('property') || decorators.includes('cached_property')) {
+      this.addProperty(owner, name, signature.returnType, line);
+      return;
+    }
+    // `@x.setter`/`@x.deleter` belong to a property that is already listed
+    if (decorators.some(decorator => /\.(setter|deleter)$/.test(decorator))) return;
+
+    const hasReceiver = !decorators.includes('staticmethod');
+    owner.methods!.push({
+      name,
+      parameters: hasReceiver ? signature.parameters.slice(1) : signature.parameters,
+      returnType: signature.returnType,
+      line
+    });
+  }
+
+  private addProperty(owner: CodeSymbol, name: string, type: string | undefined, line: number): void {
+    if (owner.properties!.some(p => p.name === name)) return;
+    owner.properties!.push({ name, type: type?.trim() || undefined, line });
+  }
+
+  private parseBases(text: string, offset: number): string[] {
+    if (text[offset] !== '(') return [];
+    const inner = text.slice(offset + 1, this.closingParen(text, offset));
+
+    return this.splitTopLevel(inner)
+      // Keyword arguments such as `metaclass=ABCMeta` are not bases
+      .filter(base => base && !/^\w+\s*=/.test(base) && !base.startsWith('*'))
+      // `Generic[T]` → `Generic`; `models.Model` stays qualified
+      .map(base => base.split('[')[0].trim())
+      .filter(base => base !== 'object');
+  }
+
+  private parseSignature(text: string, offset: number): { parameters: string[]; returnType?: string } {
+    if (text[offset] !== '(') return { parameters: [] };
+    const close = this.closingParen(text, offset);
+
+    const parameters = this.splitTopLevel(text.slice(offset + 1, close))
+      .map(param => param.split(/[:=]/)[0].trim())
+      // Bare `*` and `/` only separate keyword-only and positional-only parameters
+      .filter(param => param && param !== '*' && param !== '/');
+
+    const returnMatch = text.slice(close + 1).match(/^\s*->\s*(.+?)\s*:/);
+    return { parameters, returnType: returnMatch?.[1] };
+  }
+
+  private parseImport(text: string): string[] | null {
+    const plain = text.match(/^import\s+(.+)$/);
+    if (plain) {
+      return this.splitTopLevel(plain[1]).map(part => part.split(/\s+as\s+/)[0].trim()).filter(Boolean);
+    }
+
+    const from = text.match(/^from\s+(\S+)\s+import\s+(.+)$/);
+    if (!from) return null;
+    const module = from[1];
+    if (module === '__future__') return [];
+
+    // `from . import a, b` imports sibling modules rather than names
+    if (/^\.+$/.test(module)) {
+      return this.splitTopLevel(from[2].replace(/[()]/g, ''))
+        .map(part => part.split(/\s+as\s+/)[0].trim())
+        .filter(name => name && name !== '*')
+        .map(name => module + name);
+    }
+    return [module];
+  }
+
+  // `from x import a, b as c` → [a, x], [c, x]; `import x.y as z` → [z, x.y]; `import x.y` → [x, x]
+  private parseImportedNames(text: string): Array<[string, string]> {
+    const plain = text.match(/^import\s+(.+)$/);
+    if (plain) {
+      return this.splitTopLevel(plain[1]).map(part => {
+        const [module, alias] = part.split(/\s+as\s+/).map(piece => piece.trim());
+        return [alias || module.split('.')[0], alias ? module : module.split('.')[0]] as [string, string];
+      });
+    }
+
+    const from = text.match(/^from\s+(\S+)\s+import\s+(.+)$/);
+    if (!from) return [];
+    return this.splitTopLevel(from[2].replace(/[()]/g, ''))
+      .map(part => part.split(/\s+as\s+/).map(piece => piece.trim()))
+      .filter(([name]) => name && name !== '*')
+      .map(([name, alias]) => [alias || name, /^\.+$/.test(from[1]) ? from[1] + name : from[1]] as [string, string]);
+  }
+
+  private closingParen(text: string, open: number): number {
+    let depth = 0;
+    for (let i = open; i < text.length; i++) {
+      if ('([{'.includes(text[i])) depth++;
+      else if (')]}'.includes(text[i]) && --depth === 0) return i;
+    }
+    return text.length;
+  }
+
+  private splitTopLevel(text: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const char of text) {
+      if ('([{'.includes(char)) depth++;
+      else if (')]}'.includes(char)) depth--;
+      if (char === ',' && depth === 0) {
+        parts.push(current.trim());
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    parts.push(current.trim());
+    return parts.filter(Boolean);
+  }
+
+  /**
+   * Physical lines joined into statements: comments removed, triple-quoted
+   * strings collapsed, bracketed and backslash-continued lines merged. Each
+   * statement keeps the line number and indentation of its first line.
+   */
+  private logicalLines(content: string): LogicalLine[] {
+    const lines: LogicalLine[] = [];
+    let text = '';
+    let line = 1;
+    let startLine = 1;
+    let depth = 0;
+
+    const flush = () => {
+      const trimmed = text.trim();
+      if (trimmed) {
+        lines.push({ text: trimmed, line: startLine, indent: text.length - text.trimStart().length });
+      }
+      text = '';
+    };
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+
+      if (char === '#') {
+        while (i + 1 < content.length && content[i + 1] !== '\n') i++;
+      } else if (char === '"' || char === "'") {
+        const triple = content.startsWith(char.repeat(3), i);
+        const quote = triple ? char.repeat(3) : char;
+        let end = i + quote.length;
+        while (end < content.length && !content.startsWith(quote, end)) {
+          if (content[end] === '\\') end++;
+          else if (content[end] === '\n') {
+            if (!triple) break;
+            line++;
+          }
+          end++;
+        }
+        if (triple) {
+          // Docstrings and other multi-line strings cannot contain anything we match on
+          text += '""';
+          i = end + quote.length - 1;
+        } else {
+          // An unterminated string stops at the end of its line
+          const close = content[end] === '\n' ? end - 1 : end;
+          text += content.slice(i, close + 1);
+          i = close;
+        }
+      } else if (char === '\\' && content[i + 1] === '\n') {
+        text += ' ';
+        line++;
+        i++;
+      } else if (char === '\n') {
+        line++;
+        if (depth > 0) {
+          text += ' ';
+        } else {
+          flush();
+          startLine = line;
+        }
+      } else {
+        if ('([{'.includes(char)) depth++;
+        else if (')]}'.includes(char)) depth = Math.max(0, depth - 1);
+        text += char;
+      }
+    }
+    flush();
+
+    return lines;
+  }
+}
@@ -0,0 +1,236 @@
+import {
+  Node,
+  SourceFile,
+  SyntaxKind,
+  Type,
+  ArrowFunction,
+  ClassDeclaration,
+  FunctionDeclaration,
+  FunctionExpression,
+  VariableDeclaration
+} from 'ts-morph';
+import { CodeSymbol, Dependency } from './types.js';
+
+export const REACT_EXTENSIONS = ['.tsx', '.jsx'];
+
+const COMPONENT_WRAPPERS = ['memo', 'forwardRef', 'React.memo', 'React.forwardRef'];
+const COMPONENT_BASES = ['Component', 'PureComponent', 'React.Component', 'React.PureComponent'];
+const MAX_PROPS = 30;
+
+type FunctionLike = FunctionDeclaration | ArrowFunction | FunctionExpression;
+
+/**
+ * Recognizes function and class components in JSX files, turning their
+ * symbols into `component` symbols with props, hooks and consumed contexts,
+ * and emits `renders` dependencies for components used in their JSX.
+ */
+export class ReactAnalyzer {
+  analyze(sourceFile: SourceFile, symbols: CodeSymbol[]): Dependency[] {
+    const filePath = sourceFile.getFilePath();
+    const dependencies: Dependency[] = [];
+
+    const register = (name: string, declaration: Node, body: Node, info: NonNullable<CodeSymbol['component']>, props: CodeSymbol['properties']) => {
+      let symbol = symbols.find(s => s.name === name);
+      if (!symbol) {
+        // Module-level components that are not exported still belong in the render tree
+        symbol = {
+          name,
+          kind: 'component',
+          file: filePath,
+          line: declaration.getStartLineNumber(),
+          column: declaration.getStart()
+        };
+        symbols.push(symbol);
+      }
+
+      symbol.kind = 'component';
+      symbol.component = info;
+      // Props go ahead of the fields a class component declares itself
+      symbol.properties = [...props!, ...(symbol.properties || []).filter(property => !property.isProp)];
+      dependencies.push(...this.extractRenders(body, name, filePath));
+    };
+
+    // Function components: function declarations and module-level variables
+    sourceFile.getFunctions().forEach(func => {
+      const name = func.getName();
+      if (!name || !this.isComponentName(name) || !this.containsJsx(func)) return;
+      register(name, func, func, this.describeFunction(func), this.propsOf(func));
+    });
+
+    sourceFile.getVariableDeclarations().forEach(decl => {
+      if (!Node.isSourceFile(decl.getVariableStatement()?.getParent())) return;
+      const name = decl.getName();
+      const func = this.componentFunction(decl);
+      if (!func || !this.isComponentName(name) || !this.containsJsx(func)) return;
+
+      const info = this.describeFunction(func);
+      info.propsType = info.propsType || this.propsTypeFromAnnotation(decl);
+      register(name, decl, func, info, this.propsOf(func));
+    });
+
+    // Class components
+    sourceFile.getClasses().forEach(cls => {
+      const name = cls.getName();
+      const base = cls.getExtends();
+      if (!name || !base || !COMPONENT_BASES.includes(base.getExpression().getText())) return;
+      register(name, cls, cls, this.describeClass(cls), this.classPropsOf(cls));
+    });
+
+    return dependencies;
+  }
+
+  private isComponentName(name: string): boolean {
+    return /^[A-Z]/.test(name);
+  }
+
+  private containsJsx(node: Node): boolean {
+    return node.getDescendantsOfKind(SyntaxKind.JsxElement).length > 0 ||
+      node.getDescendantsOfKind(SyntaxKind.JsxSelfClosingElement).length > 0 ||
+      node.getDescendantsOfKind(SyntaxKind.JsxFragment).length > 0;
+  }
+
+  // `const X = () => ...`, `const X = memo(function X() {...})`, `forwardRef((props, ref) => ...)`
+  private componentFunction(decl: VariableDeclaration): FunctionLike | undefined {
+    let initializer: Node | undefined = decl.getInitializer();
+    while (Node.isCallExpression(initializer) && COMPONENT_WRAPPERS.includes(initializer.getExpression().getText())) {
+      initializer = initializer.getArguments()[0];
+    }
+    if (Node.isArrowFunction(initializer) || Node.isFunctionExpression(initializer)) {
+      return initializer;
+    }
+    return undefined;
+  }
+
+  private describeFunction(func: FunctionLike): NonNullable<CodeSymbol['component']> {
+    const propsNode = func.getParameters()[0]?.getTypeNode();
+    return {
+      type: 'function',
+      propsType: propsNode?.getText(),
+      hooks: this.collectHooks(func),
+      contexts: this.collectContexts(func)
+    };
+  }
+
+  private describeClass(cls: ClassDeclaration): NonNullable<CodeSymbol['component']> {
+    const contexts = this.collectContexts(cls);
+    const contextType = cls.getStaticProperty('contextType');
+    if (contextType && Node.isPropertyDeclaration(contextType)) {
+      const initializer = contextType.getInitializer();
+      if (initializer && !contexts.includes(initializer.getText())) contexts.push(initializer.getText());
+    }
+
+    return {
+      type: 'class',
+      propsType: cls.getExtends()?.getTypeArguments()[0]?.getText(),
+      hooks: [],
+      contexts
+    };
+  }
+
+  // `const X: React.FC<Props> = ...`
+  private propsTypeFromAnnotation(decl: VariableDeclaration): string | undefined {
+    const typeNode = decl.getTypeNode();
+    if (Node.isTypeReference(typeNode)) {
+      return typeNode.getTypeArguments()[0]?.getText();
+    }
+    return undefined;
+  }
+
+  private propsOf(func: FunctionLike): CodeSymbol['properties'] {
+    const param = func.getParameters()[0];
+    if (!param) return [];
+    return this.membersOf(param.getType(), param);
+  }
+
+  private classPropsOf(cls: ClassDeclaration): CodeSymbol['properties'] {
+    const propsNode = cls.getExtends()?.getTypeArguments()[0];
+    return propsNode ? this.membersOf(propsNode.getType(), propsNode) : [];
+  }
+
+  private membersOf(type: Type, location: Node): CodeSymbol['properties'] {
+    return type.getProperties().slice(0, MAX_PROPS).map(prop => ({
+      name: prop.getName(),
+      type: prop.getTypeAtLocation(location).getText(location),
+      line: prop.getDeclarations()[0]?.getStartLineNumber() || location.getStartLineNumber(),
+      isProp: true
+    }));
+  }
+
+  private collectHooks(node: Node): string[] {
+    const hooks = new Set<string>();
+    node.getDescendantsOfKind(SyntaxKind.CallExpression).forEach(call => {
+      const callee = call.getExpression();
+      const name = Node.isPropertyAccessExpression(callee) ? callee.getName() : callee.getText();
+      if (/^use[A-Z0-9]/.test(name)) hooks.add(name);
+    });
+    return Array.from(hooks);
+  }
+
+  private collectContexts(node: Node): string[] {
+    const contexts = new Set<string>();
+
+    node.getDescendantsOfKind(SyntaxKind.CallExpression).forEach(call => {
+      const callee = call.getExpression().getText();
+      if (callee === 'useContext' || callee === 'React.useContext') {
+        const [arg] = call.getArguments();
+        if (arg) contexts.add(arg.getText());
+      }
+    });
+
+    // <ThemeContext.Consumer>
+    this.jsxTagNames(node).forEach(tag => {
+      const match = tag.getText().match(/^(.+)\.Consumer$/);
+      if (match) contexts.add(match[1]);
+    });
+
+    return Array.from(contexts);
+  }
+
+  private jsxTagNames(node: Node): Node[] {
+    return [
+      ...node.getDescendantsOfKind(SyntaxKind.JsxOpeningElement).map(el => el.getTagNameNode()),
+      ...node.getDescendantsOfKind(SyntaxKind.JsxSelfClosingElement).map(el => el.getTagNameNode())
+    ];
+  }
+
+  private extractRenders(body: Node, componentName: string, filePath: string): Dependency[] {
+    const renders = new Map<string, Dependency>();
+
+    this.jsxTagNames(body).forEach(tagNode => {
+      const tag = tagNode.getText();
+      // Intrinsic elements (<div>) and context consumers are not components
+      if (!/^[A-Z]/.test(tag.split('.').pop() || '') || tag.endsWith('.Consumer') || tag.endsWith('.Provider')) return;
+
+      const symbol = tagNode.getSymbol();
+      const target = symbol?.isAlias() ? symbol.getAliasedSymbol() : symbol;
+      const declaration = target?.getDeclarations()[0];
+      const sourceFile = declaration?.getSourceFile();
+      if (!declaration || !sourceFile || sourceFile.isDeclarationFile() || sourceFile.isInNodeModules()) return;
+
+      const targetName = Node.isFunctionDeclaration(declaration) || Node.isClassDeclaration(declaration) ||
+        Node.isVariableDeclaration(declaration) ? declaration.getName() : undefined;
+      if (!targetName) return;
+
+      const targetFile = sourceFile.getFilePath();
+      const key = `${targetFile}|${targetName}`;
+      const existing = renders.get(key);
+      if (existing) {
+        existing.count = (existing.count || 1) + 1;
+        return;
+      }
+
+      renders.set(key, {
+        from: filePath,
+        to: targetName,
+        kind: 'renders',
+        fromSymbol: componentName,
+        toFile: targetFile,
+        toSymbol: targetName,
+        count: 1,
+        line: tagNode.getStartLineNumber()
+      });
+    });
+
+    return Array.from(renders.values());
+  }
+}
@@ -0,0 +1,59 @@
+import { describe, expect, test } from 'bun:test';
+import { Project } from 'ts-morph';
+import { RouteAnalyzer } from './route-analyzer.js';
+import { CodeSymbol, Dependency } from './types.js';
+
+const FILES: Record<string, string> = {
+  '/app/users.ts': `
+    import { Router } from 'express';
+    export const users = Router();
+    export function getUser() {}
+    users.get('/:id', getUser);
+    users.route('/').get(getUser).post(getUser);
+  `,
+  '/app/api.ts': `
+    import { Router } from 'express';
+    import { users } from './users';
+    export const api = Router();
+    api.use('/users', users);
+  `,
+  '/app/server.ts': `
+    import express from 'express';
+    import { api } from './api';
+    const app = express();
+    app.use('/api/v1/', api);
+    app.get('/health', () => 'ok');
+  `
+};
+
+describe('RouteAnalyzer', () => {
+  const project = new Project({ useInMemoryFileSystem: true });
+  Object.entries(FILES).forEach(([filePath, content]) => project.createSourceFile(filePath, content));
+
+  const analyzer = new RouteAnalyzer();
+  const symbols: CodeSymbol[] = [];
+  const dependencies: Dependency[] = [];
+  project.getSourceFiles().forEach(sourceFile => {
+    const fileSymbols: CodeSymbol[] = [];
+    dependencies.push(...analyzer.analyze(sourceFile, fileSymbols));
+    symbols.push(...fileSymbols);
+  });
+
+  test('records mounts separately from routes', () => {
+    expect(dependencies.filter(dep => dep.kind === 'mounts').map(dep => `${dep.fromMember} ${dep.toSymbol}`).sort())
+      .toEqual(['/api/v1/ api', '/users users']);
+    expect(dependencies.filter(dep => dep.kind === 'calls').map(dep => `${dep.fromSymbol} → ${dep.toSymbol}`).sort())
+      .toEqual(['GET / → getUser', 'GET /:id → getUser', 'POST / → getUser']);
+  });
+
+  test('prefixes routes through nested mounts and drops the mounts', () => {
+    const routeSymbols = symbols.slice();
+    const remaining = analyzer.applyMounts(routeSymbols, dependencies);
+
+    expect(routeSymbols.filter(s => s.kind === 'route').map(s => `${s.route!.method} ${s.route!.path}`).sort())
+      .toEqual(['GET /api/v1/users', 'GET /api/v1/users/:id', 'GET /health', 'POST /api/v1/users']);
+    expect(remaining.some(dep => dep.kind === 'mounts')).toBe(false);
+    // Route symbols are replaced, not mutated
+    expect(symbols.find(s => s.name === 'GET /:id')!.route!.path).toBe('/:id');
+  });
+});
@@ -0,0 +1,389 @@
+import {
+  Node,
+  SourceFile,
+  SyntaxKind,
+  CallExpression
+} from 'ts-morph';
+import { CodeSymbol, Dependency } from './types.js';
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete', 'options', 'head', 'all'];
+const ROUTE_FILE = /^route\.(ts|tsx|js|jsx|mts|mjs)$/;
+
+interface RouteRegistration {
+  methods: string[];
+  path: string;
+  // Router, app or plugin the route is registered on, as `${file}#${name}`
+  router?: string;
+  handler?: Node;
+}
+
+interface HandlerRef {
+  file: string;
+  symbol: string;
+  member?: string;
+}
+
+/**
+ * Finds HTTP endpoints and turns each into a `route` symbol named after its
+ * method and path, with a `calls` dependency to the handler.
+ *
+ * Covers `app.get('/x', handler)` style registration (Express, Fastify,
+ * Hono), Express `router.route('/x').get(...)` chains, Fastify
+ * `route({ method, url, handler })`, Hono `on(method, path, handler)`,
+ * Next.js `app/**\/route.ts` and `pages/api` files, and controller methods
+ * already tagged with a route by the decorator analyzer. Routers mounted
+ * under a prefix elsewhere (`app.use('/users', router)`,
+ * `fastify.register(plugin, { prefix })`, Hono `app.route('/users', sub)`)
+ * are recorded as `mounts` dependencies and folded in by `applyMounts` once
+ * every file is analyzed.
+ */
+export class RouteAnalyzer {
+  analyze(sourceFile: SourceFile, symbols: CodeSymbol[]): Dependency[] {
+    const dependencies: Dependency[] = [];
+    const filePath = sourceFile.getFilePath();
+
+    const addRoute = (method: string, routePath: string, line: number, router?: string, handler?: HandlerRef) => {
+      const name = this.routeName(method, routePath);
+      if (symbols.some(s => s.kind === 'route' && s.name === name)) return;
+
+      symbols.push({
+        name,
+        kind: 'route',
+        file: filePath,
+        line,
+        column: 0,
+        route: { method, path: routePath, router }
+      });
+      if (handler) {
+        dependencies.push({
+          from: filePath,
+          to: handler.symbol,
+          kind: 'calls',
+          fromSymbol: name,
+          toFile: handler.file,
+          toSymbol: handler.symbol,
+          toMember: handler.member,
+          line
+        });
+      }
+    };
+
+    sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression).forEach(node => {
+      const registration = this.describeRegistration(node);
+      if (registration) {
+        const handler = this.resolveHandler(registration.handler);
+        registration.methods.forEach(method =>
+          addRoute(method, registration.path, node.getStartLineNumber(), registration.router, handler)
+        );
+        return;
+      }
+
+      const mount = this.describeMount(node);
+      if (mount) dependencies.push({ ...mount, from: filePath, line: node.getStartLineNumber() });
+    });
+
+    // File-system routes: exported `GET`, `POST`, ... in app/**/route.ts, the default export in pages/api
+    const fileRoute = this.fileRoutePath(filePath);
+    if (fileRoute) {
+      sourceFile.getExportedDeclarations().forEach((declarations, exportName) => {
+        const method = exportName === 'default' && fileRoute.pages ? 'ALL' :
+          HTTP_METHODS.includes(exportName.toLowerCase()) && exportName === exportName.toUpperCase() ? exportName : undefined;
+        const declaration = declarations[0];
+        if (!method || !declaration) return;
+
+        const handlerName = Node.isFunctionDeclaration(declaration) || Node.isVariableDeclaration(declaration) ?
+          declaration.getName() : undefined;
+        addRoute(method, fileRoute.path, declaration.getStartLineNumber(), undefined,
+          handlerName ? { file: filePath, symbol: handlerName } : undefined);
+      });
+    }
+
+    // Decorated controller methods carry their route from the decorator analyzer
+    symbols.filter(s => s.kind !== 'route').forEach(symbol => {
+      symbol.methods?.forEach(method => {
+        if (!method.route) return;
+        const [verb, routePath] = method.route.split(' ');
+        addRoute(verb, routePath, method.line, undefined, { file: filePath, symbol: symbol.name, member: method.name });
+      });
+    });
+
+    return dependencies;
+  }
+
+  /**
+   * The route an inline handler belongs to, so calls made inside it can be
+   * attributed to the route symbol.
+   */
+  routeForHandler(handler: Node): string | undefined {
+    let call = handler.getParent();
+    // `fastify.route({ method, url, handler: async () => {} })`
+    if (Node.isPropertyAssignment(call)) call = call.getParent()?.getParent();
+    if (!Node.isCallExpression(call)) return undefined;
+
+    const registration = this.describeRegistration(call);
+    if (!registration || registration.handler !== handler) return undefined;
+    return this.routeName(registration.methods[0], registration.path);
+  }
+
+  /**
+   * Prefixes routes registered on routers that are mounted elsewhere, following
+   * nested mounts, and drops the `mounts` dependencies. A mount's `fromSymbol`
+   * is the `${file}#${name}` key of the router it is mounted on. Route symbols
+   * are replaced rather than mutated since they may be shared with the cache.
+   */
+  applyMounts(symbols: CodeSymbol[], dependencies: Dependency[]): Dependency[] {
+    const mounts = new Map<string, { parent?: string; prefix: string }>();
+    dependencies.forEach(dep => {
+      if (dep.kind !== 'mounts' || !dep.toFile || !dep.toSymbol) return;
+      const key = `${dep.toFile}#${dep.toSymbol}`;
+      if (!mounts.has(key)) mounts.set(key, { parent: dep.fromSymbol, prefix: dep.fromMember || '' });
+    });
+
+    const prefixOf = (router: string, seen: Set<string>): string => {
+      const mount = mounts.get(router);
+      if (!mount || seen.has(router)) return '';
+      seen.add(router);
+      const parent = mount.parent ? prefixOf(mount.parent, seen) : '';
+      return this.joinPath(parent, mount.prefix);
+    };
+
+    symbols.forEach((symbol, index) => {
+      if (symbol.kind !== 'route' || !symbol.route?.router) return;
+      const prefix = prefixOf(symbol.route.router, new Set());
+      if (!prefix || prefix === '/') return;
+      symbols[index] = { ...symbol, route: { ...symbol.route, path: this.joinPath(prefix, symbol.route.path) } };
+    });
+
+    return dependencies.filter(dep => dep.kind !== 'mounts');
+  }
+
+  private describeRegistration(call: CallExpression): RouteRegistration | undefined {
+    const callee = call.getExpression();
+    if (!Node.isPropertyAccessExpression(callee)) return undefined;
+    const name = callee.getName();
+    const args = call.getArguments();
+    const receiver = callee.getExpression();
+
+    // `app.get('/users/:id', auth, handler)`; the last argument is the handler, earlier ones middleware
+    if (HTTP_METHODS.includes(name)) {
+      const routePath = this.pathLiteral(args[0]);
+      if (routePath !== undefined && args.length >= 2) {
+        return { methods: [name.toUpperCase()], path: routePath, router: this.routerKey(receiver), handler: args[args.length - 1] };
+      }
+
+      // Express `router.route('/users').get(list).post(create)`
+      const chained = this.routeChainRoot(receiver);
+      if (chained && args.length >= 1) {
+        return { methods: [name.toUpperCase()], path: chained.path, router: chained.router, handler: args[args.length - 1] };
+      }
+      return undefined;
+    }
+
+    // Fastify `fastify.route({ method: 'GET', url: '/users', handler })`
+    if (name === 'route' && args.length === 1 && Node.isObjectLiteralExpression(args[0])) {
+      const options = args[0];
+      const routePath = this.pathLiteral(this.propertyValue(options, 'url') || this.propertyValue(options, 'path'));
+      const methods = this.methodList(this.propertyValue(options, 'method'));
+      if (routePath === undefined || methods.length === 0) return undefined;
+      return { methods, path: routePath, router: this.routerKey(receiver), handler: this.propertyValue(options, 'handler') };
+    }
+
+    // Hono `app.on('GET', '/users', handler)` or `app.on(['GET', 'POST'], ...)`
+    if (name === 'on' && args.length >= 3) {
+      const methods = this.methodList(args[0]);
+      const routePath = this.pathLiteral(args[1]);
+      if (routePath === undefined || methods.length === 0) return undefined;
+      return { methods, path: routePath, router: this.routerKey(receiver), handler: args[args.length - 1] };
+    }
+
+    return undefined;
+  }
+
+  // `app.use('/users', router)`, Hono `app.route('/users', sub)`, `fastify.register(plugin, { prefix: '/users' })`
+  private describeMount(call: CallExpression): Omit<Dependency, 'from'> | undefined {
+    const callee = call.getExpression();
+    if (!Node.isPropertyAccessExpression(callee)) return undefined;
+    const name = callee.getName();
+    const args = call.getArguments();
+
+    let prefix: string | undefined;
+    let target: Node | undefined;
+    if ((name === 'use' || name === 'route') && args.length === 2) {
+      prefix = this.pathLiteral(args[0]);
+      target = args[1];
+    } else if (name === 'register' && Node.isObjectLiteralExpression(args[1])) {
+      prefix = this.pathLiteral(this.propertyValue(args[1], 'prefix'));
+      target = args[0];
+    }
+    if (prefix === undefined || !Node.isIdentifier(target)) return undefined;
+
+    const router = this.declarationKey(target);
+    if (!router) return undefined;
+    const separator = router.lastIndexOf('#');
+    return {
+      to: router.slice(separator + 1),
+      kind: 'mounts',
+      fromSymbol: this.routerKey(callee.getExpression()),
+      fromMember: prefix,
+      toFile: router.slice(0, separator),
+      toSymbol: router.slice(separator + 1)
+    };
+  }
+
+  private routeChainRoot(receiver: Node): { path: string; router?: string } | undefined {
+    let current: Node = receiver;
+    while (Node.isCallExpression(current)) {
+      const callee = current.getExpression();
+      if (!Node.isPropertyAccessExpression(callee)) return undefined;
+      if (callee.getName() === 'route') {
+        const routePath = this.pathLiteral(current.getArguments()[0]);
+        return routePath === undefined ? undefined : { path: routePath, router: this.routerKey(callee.getExpression()) };
+      }
+      if (!HTTP_METHODS.includes(callee.getName())) return undefined;
+      current = callee.getExpression();
+    }
+    return undefined;
+  }
+
+  // Only identifiers name a router that can be mounted; `express()` and `new Hono()` inline cannot
+  private routerKey(receiver: Node): string | undefined {
+    return Node.isIdentifier(receiver) ? this.declarationKey(receiver) : undefined;
+  }
+
+  /**
+   * Where a router or plugin identifier is declared: a module-level variable
+   * or function, or, for the `fastify` parameter of a plugin, the plugin itself.
+   */
+  private declarationKey(identifier: Node): string | undefined {
+    const symbol = identifier.getSymbol();
+    const target = symbol?.isAlias() ? symbol.getAliasedSymbol() : symbol;
+    const declaration = target?.getDeclarations()[0];
+    if (!declaration || declaration.getSourceFile().isInNodeModules()) return undefined;
+
+    const file = declaration.getSourceFile().getFilePath();
+    if (Node.isVariableDeclaration(declaration) || Node.isFunctionDeclaration(declaration)) {
+      const name = declaration.getName();
+      return name ? `${file}#${name}` : undefined;
+    }
+    if (Node.isParameterDeclaration(declaration)) {
+      const plugin = declaration.getParent();
+      if (Node.isFunctionDeclaration(plugin)) {
+        const name = plugin.getName();
+        return name ? `${file}#${name}` : undefined;
+      }
+      const binding = plugin.getParent();
+      if ((Node.isArrowFunction(plugin) || Node.isFunctionExpression(plugin)) && Node.isVariableDeclaration(binding)) {
+        return `${file}#${binding.getName()}`;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * The declaration a handler argument refers to: a function or module-level
+   * variable, or a class or object method such as `usersController.list`.
+   * Inline handlers have none; their calls are attributed via `routeForHandler`.
+   */
+  private resolveHandler(handler: Node | undefined): HandlerRef | undefined {
+    if (!handler) return undefined;
+
+    // `asyncHandler(list)`, `controller.list.bind(controller)`
+    if (Node.isCallExpression(handler)) {
+      const callee = handler.getExpression();
+      if (Node.isPropertyAccessExpression(callee) && callee.getName() === 'bind') {
+        return this.resolveHandler(callee.getExpression());
+      }
+      const args = handler.getArguments();
+      return this.resolveHandler(args[args.length - 1]);
+    }
+    if (!Node.isIdentifier(handler) && !Node.isPropertyAccessExpression(handler)) return undefined;
+
+    const symbol = Node.isPropertyAccessExpression(handler) ? handler.getNameNode().getSymbol() : handler.getSymbol();
+    const target = symbol?.isAlias() ? symbol.getAliasedSymbol() : symbol;
+    const declaration = target?.getDeclarations()[0];
+    if (!declaration) return undefined;
+
+    const sourceFile = declaration.getSourceFile();
+    if (sourceFile.isDeclarationFile() || sourceFile.isInNodeModules()) return undefined;
+    const file = sourceFile.getFilePath();
+
+    if (Node.isFunctionDeclaration(declaration)) {
+      const name = declaration.getName();
+      return name ? { file, symbol: name } : undefined;
+    }
+    if (Node.isVariableDeclaration(declaration)) {
+      return { file, symbol: declaration.getName() };
+    }
+    if (Node.isMethodDeclaration(declaration) || Node.isPropertyDeclaration(declaration) || Node.isPropertyAssignment(declaration)) {
+      const owner = declaration.getParent();
+      if (Node.isClassDeclaration(owner)) {
+        const name = owner.getName();
+        return name ? { file, symbol: name, member: declaration.getName() } : undefined;
+      }
+      const binding = owner?.getParent();
+      if (Node.isObjectLiteralExpression(owner) && Node.isVariableDeclaration(binding)) {
+        return { file, symbol: binding.getName(), member: declaration.getName() };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * URL path of a Next.js route file: `app/users/[id]/route.ts` is
+   * `/users/[id]`, with route groups `(admin)` and parallel slots `@modal`
+   * left out; `pages/api/users/index.ts` is `/api/users`.
+   */
+  private fileRoutePath(filePath: string): { path: string; pages: boolean } | undefined {
+    const segments = filePath.split('/');
+    const base = segments[segments.length - 1];
+
+    const appIndex = segments.lastIndexOf('app');
+    if (appIndex !== -1 && ROUTE_FILE.test(base)) {
+      const routeSegments = segments.slice(appIndex + 1, -1).filter(s => !/^\(.*\)$/.test(s) && !s.startsWith('@'));
+      return { path: `/${routeSegments.join('/')}`, pages: false };
+    }
+
+    const pagesIndex = segments.lastIndexOf('pages');
+    if (pagesIndex !== -1 && segments[pagesIndex + 1] === 'api') {
+      const routeSegments = segments.slice(pagesIndex + 1);
+      routeSegments[routeSegments.length - 1] = base.replace(/\.[^.]+$/, '');
+      if (routeSegments[routeSegments.length - 1] === 'index') routeSegments.pop();
+      return { path: `/${routeSegments.join('/')}`, pages: true };
+    }
+
+    return undefined;
+  }
+
+  // Route paths are string literals starting with `/` or `*`, which keeps `map.get('key', fallback)` out
+  private pathLiteral(node: Node | undefined): string | undefined {
+    if (!Node.isStringLiteral(node) && !Node.isNoSubstitutionTemplateLiteral(node)) return undefined;
+    const value = node.getLiteralValue();
+    return value.startsWith('/') || value.startsWith('*') ? value : undefined;
+  }
+
+  private methodList(node: Node | undefined): string[] {
+    const elements = Node.isArrayLiteralExpression(node) ? node.getElements() : node ? [node] : [];
+    return elements
+      .map(element => Node.isStringLiteral(element) ? element.getLiteralValue().toUpperCase() : '')
+      .filter(method => HTTP_METHODS.includes(method.toLowerCase()));
+  }
+
+  private propertyValue(options: Node, name: string): Node | undefined {
+    if (!Node.isObjectLiteralExpression(options)) return undefined;
+    const property = options.getProperty(name);
+    if (Node.isPropertyAssignment(property)) return property.getInitializer();
+    // `{ handler }` shorthand
+    if (Node.isShorthandPropertyAssignment(property)) return property.getNameNode();
+    if (Node.isMethodDeclaration(property)) return property;
+    return undefined;
+  }
+
+  private routeName(method: string, routePath: string): string {
+    return `${method} ${routePath}`;
+  }
+
+  private joinPath(prefix: string, routePath: string): string {
+    const segments = [prefix, routePath].flatMap(part => part.split('/')).filter(Boolean);
+    return `/${segments.join('/')}`;
+  }
+}
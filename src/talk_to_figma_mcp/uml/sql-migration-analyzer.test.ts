@@ -0,0 +1,53 @@
+import { describe, expect, test } from 'bun:test';
+import { SqlMigrationAnalyzer } from './sql-migration-analyzer.js';
+
+const DIR = '/repo/db/migrations';
+
+describe('SqlMigrationAnalyzer', () => {
+  // Listed out of order: replay follows the numbered file names
+  const { symbols, dependencies } = new SqlMigrationAnalyzer().analyze([
+    {
+      filePath: `${DIR}/10_drop_legacy.sql`,
+      content: 'DROP TABLE legacy;\nALTER TABLE users DROP COLUMN nickname;\n'
+    },
+    {
+      filePath: `${DIR}/2_posts.sql`,
+      content: [
+        'CREATE TABLE posts (',
+        '  id serial PRIMARY KEY,',
+        '  author_id int NOT NULL REFERENCES users(id)',
+        ');',
+        'ALTER TABLE users ADD COLUMN email text UNIQUE;',
+        'ALTER TABLE users RENAME COLUMN name TO full_name;'
+      ].join('\n')
+    },
+    {
+      filePath: `${DIR}/1_init.sql`,
+      content: [
+        'CREATE TABLE users (id serial PRIMARY KEY, name text NOT NULL, nickname text);',
+        'CREATE TABLE legacy (id int);'
+      ].join('\n')
+    },
+    {
+      filePath: `${DIR}/2_posts.down.sql`,
+      content: 'DROP TABLE posts;'
+    }
+  ]);
+
+  test('replays migrations in numeric order, skipping down migrations', () => {
+    expect(symbols.map(s => s.name)).toEqual(['users', 'posts']);
+    expect(symbols[0].table!.columns.map(c => c.name)).toEqual(['id', 'full_name', 'email']);
+  });
+
+  test('keeps the file and line that introduced each column', () => {
+    const columns = Object.fromEntries(symbols[0].table!.columns.map(c => [c.name, [c.file, c.line]]));
+    expect(symbols[0].file).toBe(`${DIR}/1_init.sql`);
+    expect(columns.id).toEqual([`${DIR}/1_init.sql`, 1]);
+    expect(columns.email).toEqual([`${DIR}/2_posts.sql`, 5]);
+  });
+
+  test('turns surviving foreign keys into relations', () => {
+    expect(dependencies.map(d => `${d.fromSymbol}.${d.fromMember} ${d.cardinality} ${d.toSymbol}`)).toEqual(['posts.author_id N:1 users']);
+    expect(dependencies[0].toFile).toBe(`${DIR}/1_init.sql`);
+  });
+});
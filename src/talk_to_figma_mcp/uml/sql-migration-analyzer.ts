@@ -0,0 +1,442 @@
+import * as path from 'path';
+import { CodeSymbol, Dependency, FileAnalysis, TableColumn } from './types.js';
+
+export const SQL_EXTENSIONS = ['.sql'];
+
+interface Statement {
+  text: string;
+  file: string;
+  line: number;
+}
+
+interface Segment {
+  text: string;
+  offset: number;
+}
+
+interface ForeignKey {
+  constraint?: string;
+  columns: string[];
+  table: string;
+  file: string;
+  line: number;
+}
+
+interface TableState {
+  name: string;
+  file: string;
+  line: number;
+  columns: TableColumn[];
+  foreignKeys: ForeignKey[];
+}
+
+const IDENTIFIER = '(?:"[^"]+"|`[^`]+`|\\[[^\\]]+\\]|[\\w$]+)';
+const QUALIFIED_NAME = `${IDENTIFIER}(?:\\s*\\.\\s*${IDENTIFIER})*`;
+const COLUMN_CONSTRAINT = /\b(CONSTRAINT|PRIMARY|NOT|NULL|DEFAULT|UNIQUE|REFERENCES|CHECK|GENERATED|COLLATE|AUTO_INCREMENT|AUTOINCREMENT|IDENTITY|COMMENT|ON)\b/i;
+// MySQL `KEY`/`INDEX` entries need their column list, so columns named `key` still parse as columns
+const TABLE_CONSTRAINT = /^(?:(?:CONSTRAINT|PRIMARY\s+KEY|FOREIGN\s+KEY|UNIQUE|CHECK|EXCLUDE)\b|(?:(?:FULLTEXT|SPATIAL)\s+)?(?:KEY|INDEX)\b[^,]*\()/i;
+
+/**
+ * Replays SQL migrations in order to reconstruct the final schema.
+ *
+ * Only DDL is interpreted: CREATE/DROP TABLE and ALTER TABLE column and
+ * constraint changes. Every column keeps the file and line of the statement
+ * that introduced it, and surviving foreign keys become `relation`
+ * dependencies from the referencing table.
+ */
+export class SqlMigrationAnalyzer {
+  analyze(files: Array<{filePath: string; content: string}>): FileAnalysis {
+    const tables = new Map<string, TableState>();
+
+    this.orderMigrations(files).forEach(({ filePath, content }) => {
+      this.splitStatements(filePath, content).forEach(statement => this.apply(tables, statement));
+    });
+
+    const symbols: CodeSymbol[] = [];
+    const dependencies: Dependency[] = [];
+
+    tables.forEach(table => {
+      symbols.push({
+        name: table.name,
+        kind: 'table',
+        file: table.file,
+        line: table.line,
+        column: 0,
+        properties: table.columns.map(column => ({ name: column.name, type: column.type, line: column.line })),
+        table: { name: table.name, columns: table.columns }
+      });
+
+      table.foreignKeys.forEach(fk => {
+        const target = tables.get(fk.table.toLowerCase());
+        const dependency: Dependency = {
+          from: table.file,
+          to: target?.name || fk.table,
+          kind: 'relation',
+          fromSymbol: table.name,
+          fromMember: fk.columns.join(', '),
+          cardinality: this.isUniqueKey(table, fk.columns) ? '1:1' : 'N:1',
+          line: fk.line
+        };
+        if (target) {
+          dependency.toFile = target.file;
+          dependency.toSymbol = target.name;
+        }
+        dependencies.push(dependency);
+      });
+    });
+
+    return { symbols, dependencies };
+  }
+
+  /**
+   * Migration tools order by file or directory name (`001_init.sql`,
+   * `V2__users.sql`, `20240101120000_add_posts/migration.sql`), so compare
+   * paths with numeric awareness. Down migrations are not part of the schema.
+   */
+  private orderMigrations(files: Array<{filePath: string; content: string}>): Array<{filePath: string; content: string}> {
+    return files
+      .filter(file => !/(^|[._-])down\.sql$/i.test(path.basename(file.filePath)))
+      .sort((a, b) => a.filePath.localeCompare(b.filePath, undefined, { numeric: true }));
+  }
+
+  private apply(tables: Map<string, TableState>, statement: Statement): void {
+    const text = statement.text;
+
+    const create = text.match(new RegExp(`^CREATE\\s+(?:(?:GLOBAL\\s+|LOCAL\\s+)?(?:TEMPORARY|TEMP)\\s+|UNLOGGED\\s+)?TABLE\\s+(?:IF\\s+NOT\\s+EXISTS\\s+)?(${QUALIFIED_NAME})\\s*\\(`, 'i'));
+    if (create) {
+      const name = this.tableName(create[1]);
+      const table: TableState = { name, file: statement.file, line: statement.line, columns: [], foreignKeys: [] };
+      const open = create[0].length - 1;
+      const body = text.slice(open + 1, this.closingParen(text, open));
+
+      this.splitTopLevel(body).forEach(segment => {
+        const line = this.lineAt(statement, open + 1 + segment.offset);
+        if (TABLE_CONSTRAINT.test(segment.text)) {
+          this.applyConstraint(table, segment.text, statement.file, line);
+        } else {
+          this.addColumn(table, segment.text, statement.file, line);
+        }
+      });
+
+      tables.set(name.toLowerCase(), table);
+      return;
+    }
+
+    const drop = text.match(/^DROP\s+TABLE\s+(?:IF\s+EXISTS\s+)?(.+?)(?:\s+(?:CASCADE|RESTRICT))?$/i);
+    if (drop) {
+      this.splitTopLevel(drop[1]).forEach(segment => tables.delete(this.tableName(segment.text).toLowerCase()));
+      return;
+    }
+
+    const alter = text.match(new RegExp(`^ALTER\\s+TABLE\\s+(?:IF\\s+EXISTS\\s+)?(?:ONLY\\s+)?(${QUALIFIED_NAME})\\s+`, 'i'));
+    if (alter) {
+      const table = tables.get(this.tableName(alter[1]).toLowerCase());
+      if (!table) return;
+
+      this.splitTopLevel(text.slice(alter[0].length)).forEach(segment => {
+        this.applyAlteration(tables, table, segment.text, statement.file, this.lineAt(statement, alter[0].length + segment.offset));
+      });
+    }
+  }
+
+  private applyAlteration(tables: Map<string, TableState>, table: TableState, action: string, file: string, line: number): void {
+    const addConstraint = action.match(/^ADD\s+((?:CONSTRAINT\s+\S+\s+)?(?:PRIMARY|FOREIGN|UNIQUE)\b[\s\S]*)$/i);
+    if (addConstraint) {
+      this.applyConstraint(table, addConstraint[1], file, line);
+      return;
+    }
+
+    if (/^ADD\s+(?:INDEX|KEY|FULLTEXT|SPATIAL|CHECK|CONSTRAINT)\b/i.test(action)) return;
+
+    const addColumn = action.match(/^ADD\s+(?:COLUMN\s+)?(?:IF\s+NOT\s+EXISTS\s+)?([\s\S]+)$/i);
+    if (addColumn) {
+      this.addColumn(table, addColumn[1], file, line);
+      return;
+    }
+
+    const dropConstraint = action.match(/^DROP\s+(?:CONSTRAINT|FOREIGN\s+KEY)\s+(?:IF\s+EXISTS\s+)?(\S+)/i);
+    if (dropConstraint) {
+      const name = this.identifier(dropConstraint[1]).toLowerCase();
+      const dropped = table.foreignKeys.filter(fk => fk.constraint?.toLowerCase() === name);
+      table.foreignKeys = table.foreignKeys.filter(fk => !dropped.includes(fk));
+      dropped.forEach(fk => fk.columns.forEach(columnName => {
+        const column = this.findColumn(table, columnName.toLowerCase());
+        if (column && !table.foreignKeys.some(other => other.columns.includes(columnName))) delete column.references;
+      }));
+      return;
+    }
+
+    if (/^DROP\s+PRIMARY\s+KEY\b/i.test(action)) {
+      table.columns.forEach(column => delete column.primaryKey);
+      return;
+    }
+
+    if (/^DROP\s+(?:INDEX|KEY|CHECK|DEFAULT)\b/i.test(action)) return;
+
+    const dropColumn = action.match(/^DROP\s+(?:COLUMN\s+)?(?:IF\s+EXISTS\s+)?(\S+)/i);
+    if (dropColumn) {
+      const name = this.identifier(dropColumn[1]).toLowerCase();
+      table.columns = table.columns.filter(column => column.name.toLowerCase() !== name);
+      table.foreignKeys = table.foreignKeys.filter(fk => !fk.columns.some(column => column.toLowerCase() === name));
+      return;
+    }
+
+    const renameColumn = action.match(/^RENAME\s+(?:COLUMN\s+)?(\S+)\s+TO\s+(\S+)$/i);
+    if (renameColumn && !/^TO$/i.test(renameColumn[1])) {
+      const from = this.identifier(renameColumn[1]).toLowerCase();
+      const to = this.identifier(renameColumn[2]);
+      const column = this.findColumn(table, from);
+      if (column) column.name = to;
+      table.foreignKeys.forEach(fk => {
+        fk.columns = fk.columns.map(name => name.toLowerCase() === from ? to : name);
+      });
+      return;
+    }
+
+    const renameTable = action.match(new RegExp(`^RENAME\\s+TO\\s+(${QUALIFIED_NAME})$`, 'i'));
+    if (renameTable) {
+      const previous = table.name.toLowerCase();
+      table.name = this.tableName(renameTable[1]);
+      tables.delete(previous);
+      tables.set(table.name.toLowerCase(), table);
+      tables.forEach(other => other.foreignKeys.forEach(fk => {
+        if (fk.table.toLowerCase() === previous) fk.table = table.name;
+      }));
+      return;
+    }
+
+    // PostgreSQL `ALTER COLUMN x TYPE t` / `SET NOT NULL`, MySQL `MODIFY x <definition>`
+    const alterColumn = action.match(/^(?:ALTER|MODIFY)\s+(?:COLUMN\s+)?(\S+)\s+([\s\S]+)$/i);
+    if (alterColumn) {
+      const column = this.findColumn(table, this.identifier(alterColumn[1]).toLowerCase());
+      if (!column) return;
+
+      const change = alterColumn[2];
+      const type = change.match(/^(?:SET\s+DATA\s+)?TYPE\s+(.+?)(?:\s+USING\b.*)?$/i);
+      if (type) {
+        column.type = type[1].trim();
+      } else if (/^SET\s+NOT\s+NULL$/i.test(change)) {
+        delete column.nullable;
+      } else if (/^DROP\s+NOT\s+NULL$/i.test(change)) {
+        column.nullable = true;
+      } else if (/^MODIFY/i.test(action)) {
+        const definition = this.parseColumn(`${column.name} ${change}`);
+        if (definition) Object.assign(column, { type: definition.type, nullable: definition.nullable, unique: definition.unique });
+      }
+    }
+  }
+
+  private addColumn(table: TableState, definition: string, file: string, line: number): void {
+    const parsed = this.parseColumn(definition);
+    if (!parsed) return;
+
+    const column: TableColumn = { name: parsed.name, type: parsed.type, file, line };
+    if (parsed.primaryKey) column.primaryKey = true;
+    if (parsed.nullable) column.nullable = true;
+    if (parsed.unique) column.unique = true;
+
+    table.columns = table.columns.filter(existing => existing.name.toLowerCase() !== column.name.toLowerCase());
+    table.columns.push(column);
+
+    if (parsed.references) {
+      column.references = parsed.references;
+      table.foreignKeys.push({ columns: [column.name], table: parsed.references, file, line });
+    }
+  }
+
+  private parseColumn(definition: string): {
+    name: string;
+    type: string;
+    primaryKey: boolean;
+    nullable: boolean;
+    unique: boolean;
+    references?: string;
+  } | undefined {
+    const match = definition.match(new RegExp(`^(${IDENTIFIER})\\s+([\\s\\S]+)$`));
+    if (!match) return undefined;
+
+    const rest = match[2];
+    const constraintStart = rest.search(COLUMN_CONSTRAINT);
+    const type = (constraintStart === -1 ? rest : rest.slice(0, constraintStart)).trim().replace(/\s+/g, ' ');
+    const constraints = constraintStart === -1 ? '' : rest.slice(constraintStart);
+    const primaryKey = /\bPRIMARY\s+KEY\b/i.test(constraints);
+    const references = constraints.match(new RegExp(`\\bREFERENCES\\s+(${QUALIFIED_NAME})`, 'i'));
+
+    return {
+      name: this.identifier(match[1]),
+      type: type || 'unknown',
+      primaryKey,
+      nullable: !primaryKey && !/\bNOT\s+NULL\b/i.test(constraints),
+      unique: /\bUNIQUE\b/i.test(constraints),
+      references: references ? this.tableName(references[1]) : undefined
+    };
+  }
+
+  private applyConstraint(table: TableState, definition: string, file: string, line: number): void {
+    const constraint = definition.match(new RegExp(`^CONSTRAINT\\s+(${IDENTIFIER})\\s+`, 'i'));
+    const body = constraint ? definition.slice(constraint[0].length) : definition;
+
+    const primaryKey = body.match(/^PRIMARY\s+KEY\s*\(([^)]*)\)/i);
+    if (primaryKey) {
+      this.columnList(primaryKey[1]).forEach(name => {
+        const column = this.findColumn(table, name.toLowerCase());
+        if (column) {
+          column.primaryKey = true;
+          delete column.nullable;
+        }
+      });
+      return;
+    }
+
+    const unique = body.match(/^UNIQUE\s*(?:KEY|INDEX)?\s*(?:\S+\s*)?\(([^)]*)\)/i);
+    if (unique) {
+      const names = this.columnList(unique[1]);
+      // Only single-column uniqueness is a property of the column
+      if (names.length === 1) {
+        const column = this.findColumn(table, names[0].toLowerCase());
+        if (column) column.unique = true;
+      }
+      return;
+    }
+
+    const foreignKey = body.match(new RegExp(`^FOREIGN\\s+KEY\\s*(?:${IDENTIFIER}\\s*)?\\(([^)]*)\\)\\s*REFERENCES\\s+(${QUALIFIED_NAME})`, 'i'));
+    if (foreignKey) {
+      const columns = this.columnList(foreignKey[1]);
+      const target = this.tableName(foreignKey[2]);
+      table.foreignKeys.push({
+        constraint: constraint ? this.identifier(constraint[1]) : undefined,
+        columns,
+        table: target,
+        file,
+        line
+      });
+      columns.forEach(name => {
+        const column = this.findColumn(table, name.toLowerCase());
+        if (column) column.references = target;
+      });
+    }
+  }
+
+  private isUniqueKey(table: TableState, columns: string[]): boolean {
+    if (columns.length !== 1) return false;
+    const column = this.findColumn(table, columns[0].toLowerCase());
+    const primaryKeys = table.columns.filter(c => c.primaryKey);
+    return !!column && (!!column.unique || (primaryKeys.length === 1 && primaryKeys[0] === column));
+  }
+
+  private findColumn(table: TableState, lowerName: string): TableColumn | undefined {
+    return table.columns.find(column => column.name.toLowerCase() === lowerName);
+  }
+
+  private columnList(list: string): string[] {
+    return list.split(',').map(name => this.identifier(name.trim().split(/\s+/)[0])).filter(Boolean);
+  }
+
+  // `public."Users"` → `Users`
+  private tableName(qualified: string): string {
+    const parts = qualified.trim().match(new RegExp(IDENTIFIER, 'g')) || [qualified];
+    return this.identifier(parts[parts.length - 1]);
+  }
+
+  private identifier(text: string): string {
+    return text.trim().replace(/^["`[]|["`\]]$/g, '');
+  }
+
+  private lineAt(statement: Statement, offset: number): number {
+    const before = statement.text.slice(0, offset);
+    // Segments are trimmed, so count up to the first non-space character
+    const skipped = statement.text.slice(offset).match(/^\s*/)![0];
+    return statement.line + (before + skipped).split('\n').length - 1;
+  }
+
+  private closingParen(text: string, open: number): number {
+    let depth = 0;
+    for (let i = open; i < text.length; i++) {
+      if (text[i] === '(') depth++;
+      else if (text[i] === ')' && --depth === 0) return i;
+    }
+    return text.length;
+  }
+
+  private splitTopLevel(text: string): Segment[] {
+    const segments: Segment[] = [];
+    let depth = 0;
+    let start = 0;
+
+    const push = (end: number) => {
+      const raw = text.slice(start, end);
+      const trimmed = raw.trim();
+      if (trimmed) segments.push({ text: trimmed, offset: start });
+    };
+
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === '(') depth++;
+      else if (text[i] === ')') depth--;
+      else if (text[i] === ',' && depth === 0) {
+        push(i);
+        start = i + 1;
+      }
+    }
+    push(text.length);
+
+    return segments;
+  }
+
+  /**
+   * Splits a file into statements on `;`, skipping comments and anything
+   * quoted (including PostgreSQL `$tag$` bodies). Comments are blanked out
+   * with newlines kept so positions still map to lines.
+   */
+  private splitStatements(file: string, content: string): Statement[] {
+    const statements: Statement[] = [];
+    let text = '';
+    let line = 1;
+    let startLine = 1;
+
+    const flush = () => {
+      const leading = text.match(/^\s*/)![0];
+      const trimmed = text.trim();
+      if (trimmed) {
+        statements.push({ text: trimmed, file, line: startLine + leading.split('\n').length - 1 });
+      }
+      text = '';
+      startLine = line;
+    };
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+
+      if (content.startsWith('--', i)) {
+        while (i < content.length && content[i] !== '\n') i++;
+        i--;
+      } else if (content.startsWith('/*', i)) {
+        const end = content.indexOf('*/', i + 2);
+        const comment = content.slice(i, end === -1 ? content.length : end + 2);
+        const newlines = comment.split('\n').length - 1;
+        text += '\n'.repeat(newlines) || ' ';
+        line += newlines;
+        i += comment.length - 1;
+      } else if (char === "'" || char === '"' || char === '`' || char === '$') {
+        const dollarTag = char === '$' ? content.slice(i).match(/^\$[A-Za-z_]*\$/)?.[0] : undefined;
+        if (char === '$' && !dollarTag) {
+          text += char;
+          continue;
+        }
+        const quote = dollarTag || char;
+        const end = content.indexOf(quote, i + quote.length);
+        const literal = content.slice(i, end === -1 ? content.length : end + quote.length);
+        text += literal;
+        line += literal.split('\n').length - 1;
+        i += literal.length - 1;
+      } else if (char === ';') {
+        flush();
+      } else {
+        if (char === '\n') line++;
+        text += char;
+      }
+    }
+    flush();
+
+    return statements;
+  }
+}
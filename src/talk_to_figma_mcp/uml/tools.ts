@@ -3,14 +3,25 @@ import * as path from 'path';
 import * as fs from 'fs/promises';
 import { CodeIntake } from './code-intake.js';
 import { ErdUmlBuilder } from './erd-uml-builder.js';
-import { UmlPayload } from './types.js';
+import { GlobFilter } from './glob-filter.js';
+import { UmlDiff } from './uml-diff.js';
+import { ArchitectureRules, ARCHITECTURE_CONFIG_FILE } from './architecture-rules.js';
+import { UmlPayload, SymbolDoc } from './types.js';
+
+// Longest list of each kind a report returns; the summary has the full counts
+const MAX_REPORTED_FINDINGS = 100;
 
 // Schema for generate_uml tool
 export const generateUmlSchema = z.object({
   rootPath: z.string().describe("Root directory path to analyze"),
   maxFiles: z.number().optional().default(500).describe("Maximum number of files to analyze"),
-  includePatterns: z.array(z.string()).optional().describe("Glob patterns to include"),
-  excludePatterns: z.array(z.string()).optional().describe("Glob patterns to exclude")
+  includePatterns: z.array(z.string()).optional().describe("Glob patterns to include, relative to rootPath (e.g. 'src/features/**'); prefix with '!' to negate"),
+  excludePatterns: z.array(z.string()).optional().describe("Glob patterns to exclude, relative to rootPath (e.g. '**/*.test.ts'); prefix with '!' to re-include"),
+  useCache: z.boolean().optional().default(true).describe("Reuse per-file results from the on-disk analysis cache for unchanged files"),
+  concurrency: z.number().int().min(1).optional().default(1).describe("Worker threads used to analyze changed files; 1 analyzes in process"),
+  baseRef: z.string().optional().describe("Git ref to diff against (e.g. 'main'); limits the diagram to files changed since its merge base and their direct neighbors, tagging nodes added/modified/deleted"),
+  headRef: z.string().optional().describe("Git ref to diff with baseRef; defaults to the working tree"),
+  savePayloadPath: z.string().optional().describe("Also write the generated payload as JSON to this file, e.g. as a snapshot for diff_uml")
 });
 
 // Schema for get_directory_tree tool  
@@ -21,21 +32,60 @@ export const getDirectoryTreeSchema = z.object({
 
 // Schema for get_file_contents tool
 export const getFileContentsSchema = z.object({
-  filePath: z.string().describe("Path to the file to read"),
+  filePath: z.string().describe("Path to the file to read; relative paths from a diagram resolve against its rootPath"),
   startLine: z.number().optional().describe("Start line number (1-based)"),
   endLine: z.number().optional().describe("End line number (1-based)")
 });
 
+// Schema for diff_uml tool
+export const diffUmlSchema = z.object({
+  basePath: z.string().optional().describe("Saved payload JSON to compare from; defaults to the payload generated before the last one"),
+  headPath: z.string().optional().describe("Saved payload JSON to compare to; defaults to the last generated payload"),
+  outputPath: z.string().optional().describe("Write the merged, diff-annotated payload as JSON to this file")
+});
+
+// Schema for find_cycles tool
+export const findCyclesSchema = z.object({
+  kind: z.enum(['import', 'symbol']).optional().describe("Only report import cycles between files, or symbol cycles between diagram nodes"),
+  highlightCycleId: z.string().optional().describe("Id of a reported cycle to highlight in the plugin's diagram")
+});
+
+// Schema for find_dead_code tool
+export const findDeadCodeSchema = z.object({
+  rootPath: z.string().describe("Root directory path to analyze"),
+  entryPoints: z.array(z.string()).optional().describe("Entry files as glob patterns relative to rootPath (e.g. 'src/main.ts', 'src/pages/**'); defaults to what package.json points at plus common entry, test and config file names"),
+  maxFiles: z.number().optional().default(500).describe("Maximum number of files to analyze"),
+  includePatterns: z.array(z.string()).optional().describe("Glob patterns to include, relative to rootPath"),
+  excludePatterns: z.array(z.string()).optional().describe("Glob patterns to exclude, relative to rootPath"),
+  useCache: z.boolean().optional().default(true).describe("Reuse per-file results from the on-disk analysis cache for unchanged files")
+});
+
+// Schema for check_architecture tool
+export const checkArchitectureSchema = z.object({
+  rootPath: z.string().describe("Root directory path to analyze"),
+  configPath: z.string().optional().describe("Architecture config JSON, relative to rootPath; defaults to .uml-architecture.json. Declares layers as globs ({\"layers\": {\"ui\": [\"src/ui/**\"]}}) and rules such as 'ui -> domain -> infra' or 'infra !-> ui'"),
+  maxFiles: z.number().optional().default(500).describe("Maximum number of files to analyze"),
+  includePatterns: z.array(z.string()).optional().describe("Glob patterns to include, relative to rootPath"),
+  excludePatterns: z.array(z.string()).optional().describe("Glob patterns to exclude, relative to rootPath"),
+  useCache: z.boolean().optional().default(true).describe("Reuse per-file results from the on-disk analysis cache for unchanged files")
+});
+
 // Schema for search_symbols tool
 export const searchSymbolsSchema = z.object({
-  symbolName: z.string().describe("Symbol name to search for"),
-  symbolKind: z.enum(['class', 'interface', 'function', 'type', 'enum', 'variable']).optional().describe("Type of symbol to search for")
+  symbolName: z.string().optional().describe("Symbol name to search for; omit to match every symbol"),
+  symbolKind: z.enum(['class', 'interface', 'function', 'type', 'enum', 'variable', 'component', 'table', 'module', 'route']).optional().describe("Type of symbol to search for"),
+  tag: z.string().optional().describe("Only symbols whose doc comment, or one of whose methods' doc comments, has this tag, e.g. 'deprecated' or 'owner'; 'owner=payments' also requires the tag text to contain 'payments'")
 });
 
 export class UmlTools {
   private codeIntake: CodeIntake;
   private umlBuilder: ErdUmlBuilder;
+  private umlDiff = new UmlDiff();
   private lastGeneratedPayload: UmlPayload | null = null;
+  private previousGeneratedPayload: UmlPayload | null = null;
+  private lastDiffPayload: UmlPayload | null = null;
+  // Diagram of the last dead-code or architecture report, kept out of the generate/diff history
+  private lastReportPayload: UmlPayload | null = null;
 
   constructor() {
     this.codeIntake = new CodeIntake();
@@ -44,7 +94,7 @@ export class UmlTools {
 
   async generateUml(params: z.infer<typeof generateUmlSchema>): Promise<string> {
     try {
-      const { rootPath, maxFiles, includePatterns, excludePatterns } = params;
+      const { rootPath, maxFiles, includePatterns, excludePatterns, useCache, concurrency, baseRef, headRef, savePayloadPath } = params;
       
       // Validate root path
       const stats = await fs.stat(rootPath);
@@ -54,20 +104,45 @@ export class UmlTools {
 
       console.log(`Analyzing directory: ${rootPath}`);
       
-      // Analyze the codebase
-      const analysisResult = await this.codeIntake.analyzeDirectory(rootPath, maxFiles);
+      if (headRef && !baseRef) {
+        throw new Error('headRef requires baseRef');
+      }
+
+      // Analyze the codebase, or only what a git diff touches
+      const analyzeOptions = { includePatterns, excludePatterns, useCache, concurrency };
+      const analysisResult = baseRef ?
+        await this.codeIntake.analyzeDiff(rootPath, maxFiles, baseRef, headRef, analyzeOptions) :
+        await this.codeIntake.analyzeDirectory(rootPath, maxFiles, analyzeOptions);
       
       if (analysisResult.errors.length > 0) {
         console.warn(`Analysis completed with ${analysisResult.errors.length} errors`);
       }
 
-      // Build directory tree
-      const directory = await this.codeIntake.buildDirectoryTree(rootPath);
+      // Layering rules from .uml-architecture.json, when the project has one; a broken config
+      // is reported without failing the diagram, which was not asked for a check
+      try {
+        const rules = await ArchitectureRules.load(rootPath);
+        if (rules) analysisResult.violations = rules.check(analysisResult);
+      } catch (error) {
+        analysisResult.errors.push({
+          file: path.join(rootPath, ARCHITECTURE_CONFIG_FILE),
+          message: error instanceof Error ? error.message : String(error)
+        });
+      }
+
+      // Build directory tree, scoped by the same patterns as the analysis
+      const filter = new GlobFilter(rootPath, includePatterns, excludePatterns);
+      const directory = await this.codeIntake.buildDirectoryTree(rootPath, filter.isEmpty() ? undefined : filter);
 
       // Generate UML diagram
       const payload = this.umlBuilder.buildUmlDiagram(analysisResult, directory, rootPath);
+      this.previousGeneratedPayload = this.lastGeneratedPayload;
       this.lastGeneratedPayload = payload;
 
+      if (savePayloadPath) {
+        await fs.writeFile(savePayloadPath, JSON.stringify(payload, null, 2), 'utf-8');
+      }
+
       const summary = {
         success: true,
         metadata: payload.metadata,
@@ -76,9 +151,17 @@ export class UmlTools {
           totalEdges: payload.diagram.edges.length,
           filesAnalyzed: analysisResult.files.length,
           symbolsFound: analysisResult.symbols.length,
-          errorsEncountered: analysisResult.errors.length
+          errorsEncountered: analysisResult.errors.length,
+          unresolvedImports: analysisResult.unresolvedImports?.length || 0,
+          unresolvedSymbols: analysisResult.unresolvedSymbols?.length || 0,
+          architectureViolations: analysisResult.violations?.length,
+          cache: analysisResult.cacheStats
         },
-        errors: analysisResult.errors.length > 0 ? analysisResult.errors.slice(0, 10) : undefined
+        errors: analysisResult.errors.length > 0 ? analysisResult.errors.slice(0, 10) : undefined,
+        unresolvedImports: analysisResult.unresolvedImports?.length ?
+          analysisResult.unresolvedImports.slice(0, 10) : undefined,
+        unresolvedSymbols: analysisResult.unresolvedSymbols?.length ?
+          analysisResult.unresolvedSymbols.slice(0, 10) : undefined
       };
 
       return JSON.stringify(summary, null, 2);
@@ -115,7 +198,10 @@ export class UmlTools {
     try {
       const { filePath, startLine, endLine } = params;
       
-      const content = await fs.readFile(filePath, 'utf-8');
+      // Payload paths are relative to the root of the last generated diagram
+      const rootPath = this.lastGeneratedPayload?.metadata.rootPath;
+      const resolvedPath = !path.isAbsolute(filePath) && rootPath ? path.join(rootPath, filePath) : filePath;
+      const content = await fs.readFile(resolvedPath, 'utf-8');
       const lines = content.split('\n');
       
       let result: string;
@@ -150,13 +236,14 @@ export class UmlTools {
         throw new Error('No UML diagram has been generated yet. Please run generate_uml first.');
       }
 
-      const { symbolName, symbolKind } = params;
+      const { symbolName = '', symbolKind, tag } = params;
       
       const matchingNodes = this.lastGeneratedPayload.diagram.nodes.filter(node => {
         const nameMatch = node.label.toLowerCase().includes(symbolName.toLowerCase()) ||
                          node.symbol?.toLowerCase().includes(symbolName.toLowerCase());
         const kindMatch = !symbolKind || node.kind === symbolKind;
-        return nameMatch && kindMatch;
+        const tagMatch = !tag || this.hasDocTag(node.doc, tag) || !!node.methodDocs?.some(doc => this.hasDocTag(doc, tag));
+        return nameMatch && kindMatch && tagMatch;
       });
 
       const results = matchingNodes.map(node => ({
@@ -165,12 +252,16 @@ export class UmlTools {
         kind: node.kind,
         file: node.file,
         line: node.line,
-        symbol: node.symbol
+        symbol: node.symbol,
+        doc: node.doc,
+        // Methods carrying the tag, when filtering by one
+        taggedMethods: tag && node.methods && node.methodDocs ?
+          node.methods.filter((_, i) => this.hasDocTag(node.methodDocs![i], tag)) : undefined
       }));
 
       return JSON.stringify({
         success: true,
-        query: { symbolName, symbolKind },
+        query: { symbolName, symbolKind, tag },
         results,
         totalFound: results.length
       }, null, 2);
@@ -184,10 +275,190 @@ export class UmlTools {
     }
   }
 
+  // `tag` is a tag name, optionally followed by `=text` to match within the tag's comment
+  private hasDocTag(doc: SymbolDoc | null | undefined, tag: string): boolean {
+    if (!doc) return false;
+    const [name, value] = tag.replace(/^@/, '').split('=', 2).map(part => part.trim());
+    const texts = name === 'deprecated' ? (doc.deprecated ? [doc.deprecated === true ? '' : doc.deprecated] : []) :
+      name === 'returns' || name === 'return' ? (doc.returns !== undefined ? [doc.returns] : []) :
+      name === 'param' ? Object.keys(doc.params || {}) :
+      doc.tags?.[name] || [];
+    return texts.length > 0 && (!value || texts.some(text => text.toLowerCase().includes(value.toLowerCase())));
+  }
+
+  async diffUml(params: z.infer<typeof diffUmlSchema>): Promise<string> {
+    try {
+      const { basePath, headPath, outputPath } = params;
+
+      const base = basePath ? await this.readPayload(basePath) : this.previousGeneratedPayload;
+      const head = headPath ? await this.readPayload(headPath) : this.lastGeneratedPayload;
+      if (!base || !head) {
+        throw new Error('Two payloads are needed: run generate_uml twice, or pass basePath/headPath of saved payloads.');
+      }
+
+      const { report, merged } = this.umlDiff.diff(base, head);
+      this.lastDiffPayload = merged;
+
+      if (outputPath) {
+        await fs.writeFile(outputPath, JSON.stringify(merged, null, 2), 'utf-8');
+      }
+
+      return JSON.stringify({
+        success: true,
+        ...report,
+        mergedPayloadPath: outputPath
+      }, null, 2);
+    } catch (error) {
+      const errorResult = {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+      return JSON.stringify(errorResult, null, 2);
+    }
+  }
+
+  async findCycles(params: z.infer<typeof findCyclesSchema>): Promise<string> {
+    try {
+      if (!this.lastGeneratedPayload) {
+        throw new Error('No UML diagram has been generated yet. Please run generate_uml first.');
+      }
+
+      const { kind, highlightCycleId } = params;
+      const allCycles = this.lastGeneratedPayload.diagram.cycles || [];
+      if (highlightCycleId && !allCycles.some(cycle => cycle.id === highlightCycleId)) {
+        throw new Error(`No cycle with id ${highlightCycleId} in the last generated diagram`);
+      }
+
+      const cycles = allCycles.filter(cycle => !kind || cycle.kind === kind);
+      return JSON.stringify({
+        success: true,
+        summary: {
+          importCycles: allCycles.filter(cycle => cycle.kind === 'import').length,
+          symbolCycles: allCycles.filter(cycle => cycle.kind === 'symbol').length
+        },
+        cycles: cycles.map(cycle => ({
+          id: cycle.id,
+          kind: cycle.kind,
+          path: cycle.path.join(' → '),
+          files: cycle.files,
+          size: cycle.kind === 'import' ? cycle.files.length : cycle.nodeIds.length,
+          edges: cycle.edgeIds.length
+        })),
+        highlightedCycleId: highlightCycleId
+      }, null, 2);
+    } catch (error) {
+      const errorResult = {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        query: params
+      };
+      return JSON.stringify(errorResult, null, 2);
+    }
+  }
+
+  async findDeadCode(params: z.infer<typeof findDeadCodeSchema>): Promise<string> {
+    try {
+      const { rootPath, entryPoints, maxFiles, includePatterns, excludePatterns, useCache } = params;
+
+      const stats = await fs.stat(rootPath);
+      if (!stats.isDirectory()) {
+        throw new Error(`Path ${rootPath} is not a directory`);
+      }
+
+      const analysisResult = await this.codeIntake.analyzeDirectory(rootPath, maxFiles, { includePatterns, excludePatterns, useCache });
+      const report = await this.codeIntake.findDeadCode(rootPath, analysisResult, entryPoints);
+      analysisResult.deadCode = report;
+
+      // The diagram grays out dead nodes
+      const filter = new GlobFilter(rootPath, includePatterns, excludePatterns);
+      const directory = await this.codeIntake.buildDirectoryTree(rootPath, filter.isEmpty() ? undefined : filter);
+      const payload = this.umlBuilder.buildUmlDiagram(analysisResult, directory, rootPath);
+      this.lastReportPayload = payload;
+
+      return JSON.stringify({
+        success: true,
+        summary: {
+          entryPoints: report.entryPoints.length,
+          unusedExports: report.unusedExports.length,
+          unusedPrivateMembers: report.unusedPrivateMembers.length,
+          unreachableFiles: report.unreachableFiles.length,
+          deadNodes: payload.diagram.nodes.filter(node => node.deadCode).length
+        },
+        entryPoints: report.entryPoints,
+        unusedExports: report.unusedExports.slice(0, MAX_REPORTED_FINDINGS),
+        unusedPrivateMembers: report.unusedPrivateMembers.slice(0, MAX_REPORTED_FINDINGS),
+        unreachableFiles: report.unreachableFiles.slice(0, MAX_REPORTED_FINDINGS),
+        errors: analysisResult.errors.length > 0 ? analysisResult.errors.slice(0, 10) : undefined
+      }, null, 2);
+    } catch (error) {
+      const errorResult = {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString()
+      };
+      return JSON.stringify(errorResult, null, 2);
+    }
+  }
+
+  async checkArchitecture(params: z.infer<typeof checkArchitectureSchema>): Promise<string> {
+    try {
+      const { rootPath, configPath, maxFiles, includePatterns, excludePatterns, useCache } = params;
+
+      const rules = await ArchitectureRules.load(rootPath, configPath);
+      if (!rules) {
+        throw new Error(`No architecture config found; add ${path.join(rootPath, ARCHITECTURE_CONFIG_FILE)} or pass configPath`);
+      }
+
+      const analysisResult = await this.codeIntake.analyzeDirectory(rootPath, maxFiles, { includePatterns, excludePatterns, useCache });
+      const violations = rules.check(analysisResult);
+      analysisResult.violations = violations;
+
+      // The diagram draws violating edges in red
+      const filter = new GlobFilter(rootPath, includePatterns, excludePatterns);
+      const directory = await this.codeIntake.buildDirectoryTree(rootPath, filter.isEmpty() ? undefined : filter);
+      const payload = this.umlBuilder.buildUmlDiagram(analysisResult, directory, rootPath);
+      this.lastReportPayload = payload;
+
+      return JSON.stringify({
+        success: true,
+        summary: {
+          violations: violations.length,
+          filesChecked: analysisResult.files.length,
+          flaggedEdges: payload.diagram.edges.filter(edge => edge.violation).length
+        },
+        violations: violations.slice(0, MAX_REPORTED_FINDINGS),
+        errors: analysisResult.errors.length > 0 ? analysisResult.errors.slice(0, 10) : undefined
+      }, null, 2);
+    } catch (error) {
+      const errorResult = {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString()
+      };
+      return JSON.stringify(errorResult, null, 2);
+    }
+  }
+
   getLastGeneratedPayload(): UmlPayload | null {
     return this.lastGeneratedPayload;
   }
 
+  getLastDiffPayload(): UmlPayload | null {
+    return this.lastDiffPayload;
+  }
+
+  getLastReportPayload(): UmlPayload | null {
+    return this.lastReportPayload;
+  }
+
+  private async readPayload(filePath: string): Promise<UmlPayload> {
+    const payload = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    if (!payload?.diagram?.nodes || !payload?.metadata) {
+      throw new Error(`${filePath} is not a UML payload`);
+    }
+    return payload;
+  }
+
   private limitTreeDepth(tree: any, maxDepth: number, currentDepth: number = 0): any {
     if (currentDepth >= maxDepth || !tree.children) {
       return { ...tree, children: undefined };
@@ -8,7 +8,7 @@ export interface DirNode {
 export interface UmlNode {
   id: string;
   label: string;
-  kind: 'class' | 'module' | 'function' | 'interface' | 'type' | 'enum';
+  kind: 'class' | 'module' | 'function' | 'interface' | 'type' | 'enum' | 'variable' | 'component' | 'table' | 'route';
   file: string;
   symbol?: string;
   line?: number;
@@ -16,14 +16,98 @@ export interface UmlNode {
   methods?: string[];
   imports?: string[];
   exports?: string[];
+  propsType?: string;
+  hooks?: string[];
+  contexts?: string[];
+  tableName?: string;
+  columns?: TableColumn[];
+  // Framework role from class decorators, e.g. 'controller' or 'injectable'
+  stereotype?: string;
+  // Abstract classes and abstract members are drawn in italics
+  isAbstract?: boolean;
+  route?: {
+    method: string;
+    path: string;
+  };
+  // Set on diff-scoped diagrams; unchanged symbols and neighbors have none
+  change?: ChangeStatus;
+  metrics?: NodeMetrics;
+  // Unused export, or declared in a file no entry point reaches
+  deadCode?: boolean;
+  doc?: SymbolDoc;
+  // Docs of each entry of `methods`, in the same order
+  methodDocs?: Array<SymbolDoc | null>;
+}
+
+// JSDoc/TSDoc comment of a declaration
+export interface SymbolDoc {
+  summary?: string;
+  params?: Record<string, string>;
+  returns?: string;
+  // The reason given, or true for a bare @deprecated
+  deprecated?: string | true;
+  // Other block tags by name without '@', e.g. { owner: ['payments-team'] }
+  tags?: Record<string, string[]>;
+}
+
+export interface SymbolMetrics {
+  // Lines the declaration spans
+  loc?: number;
+  // Cyclomatic complexity of a function, or the sum over a class's methods
+  complexity?: number;
+  // Properties and methods
+  members?: number;
+}
+
+export interface NodeMetrics extends SymbolMetrics {
+  // Distinct nodes with an edge into / out of this one
+  fanIn: number;
+  fanOut: number;
+  // Cyclomatic complexity of each method, by its entry in `methods`; accessor pairs and overloads share a name
+  methodComplexity?: Record<string, number>;
 }
 
 export interface UmlEdge {
   id: string;
   source: string;
   target: string;
-  type: 'import' | 'extends' | 'implements' | 'calls' | 'references' | 'contains';
+  type: 'import' | 'extends' | 'implements' | 'calls' | 'references' | 'contains' | 'renders' | 'relation' | 'generates' | 'injects';
   label?: string;
+  sourceMember?: string;
+  targetMember?: string;
+  count?: number;
+  multiplicity?: 'single' | 'array' | 'optional';
+  cardinality?: Cardinality;
+  // Set on merged diff payloads
+  change?: ChangeStatus;
+  // Architecture rule the dependency breaks
+  violation?: string;
+}
+
+export type ChangeStatus = 'added' | 'modified' | 'deleted';
+
+// Git diff a diagram was scoped to; `files` holds the status of each changed file
+export interface DiffSummary {
+  baseRef: string;
+  headRef?: string;
+  mergeBase: string;
+  files: Record<string, ChangeStatus>;
+}
+
+// Entity relationship as source:target, e.g. 'N:1' for many posts to one author
+export type Cardinality = '1:1' | '1:N' | 'N:1' | 'N:M';
+
+export interface TableColumn {
+  name: string;
+  type: string;
+  primaryKey?: boolean;
+  nullable?: boolean;
+  unique?: boolean;
+  // Entity the column points at as a foreign key
+  references?: string;
+  // File that introduced the column, e.g. a later migration; the table's own file when absent
+  file?: string;
+  line: number;
 }
 
 export interface FileToUmlMap {
@@ -36,6 +120,18 @@ export interface FileToUmlMap {
 export interface UmlDiagram {
   nodes: UmlNode[];
   edges: UmlEdge[];
+  cycles?: UmlCycle[];
+}
+
+// A strongly connected group of files (import) or diagram nodes (symbol)
+export interface UmlCycle {
+  id: string;
+  kind: 'import' | 'symbol';
+  files: string[];
+  nodeIds: string[];
+  edgeIds: string[];
+  // Closed walk through the cycle, e.g. ['src/a.ts', 'src/b.ts', 'src/a.ts']
+  path: string[];
 }
 
 export interface UmlPayload {
@@ -47,26 +143,248 @@ export interface UmlPayload {
     totalFiles: number;
     totalSymbols: number;
     rootPath: string;
+    filters?: FilterStats;
+    diff?: DiffSummary;
+    // Payload a merged `diff_uml` result was compared against
+    comparedWith?: {
+      generatedAt: string;
+      rootPath: string;
+    };
   };
 }
 
+export interface UmlDiffSymbol {
+  name: string;
+  kind: UmlNode['kind'];
+  // Relative to the payload's root
+  file: string;
+  line?: number;
+}
+
+export interface UmlDiffEdge {
+  type: UmlEdge['type'];
+  // `file:symbol` of each end
+  source: string;
+  target: string;
+  label?: string;
+}
+
+export interface UmlDiffReport {
+  base: { generatedAt: string; rootPath: string };
+  head: { generatedAt: string; rootPath: string };
+  summary: {
+    addedSymbols: number;
+    removedSymbols: number;
+    changedSymbols: number;
+    addedEdges: number;
+    removedEdges: number;
+  };
+  addedSymbols: UmlDiffSymbol[];
+  removedSymbols: UmlDiffSymbol[];
+  changedSymbols: Array<UmlDiffSymbol & {
+    addedMembers: string[];
+    removedMembers: string[];
+    changedMembers: Array<{ name: string; before: string; after: string }>;
+    // Other node fields that differ, e.g. 'stereotype' or 'route'
+    changedFields: string[];
+  }>;
+  addedEdges: UmlDiffEdge[];
+  removedEdges: UmlDiffEdge[];
+}
+
 export interface CodeSymbol {
   name: string;
-  kind: 'class' | 'interface' | 'function' | 'variable' | 'type' | 'enum';
+  kind: 'class' | 'interface' | 'function' | 'variable' | 'type' | 'enum' | 'component' | 'table' | 'module' | 'route';
   file: string;
   line: number;
+  // Last line of the declaration, where the analyzer knows it
+  endLine?: number;
   column: number;
-  properties?: Array<{name: string; type?: string; line: number}>;
-  methods?: Array<{name: string; parameters?: string[]; returnType?: string; line: number}>;
+  properties?: SymbolProperty[];
+  methods?: SymbolMethod[];
+  typeParameters?: TypeParameter[];
+  isAbstract?: boolean;
   extends?: string;
   implements?: string[];
   imports?: Array<{name: string; from: string}>;
   exports?: string[];
+  component?: {
+    type: 'function' | 'class';
+    propsType?: string;
+    hooks: string[];
+    contexts: string[];
+  };
+  table?: {
+    name: string;
+    columns: TableColumn[];
+  };
+  stereotype?: string;
+  // HTTP endpoint; `router` is the `${file}#${name}` of the router or app it is registered on
+  route?: {
+    method: string;
+    path: string;
+    router?: string;
+  };
+  change?: ChangeStatus;
+  // Size and complexity, for declarations analyzed through the type checker
+  metrics?: SymbolMetrics;
+  doc?: SymbolDoc;
+}
+
+// `T extends Entity = User` as { name: 'T', constraint: 'Entity', default: 'User' }
+export interface TypeParameter {
+  name: string;
+  constraint?: string;
+  default?: string;
+}
+
+export type MemberVisibility = 'public' | 'protected' | 'private';
+
+// Left out by analyzers that cannot tell, e.g. for plain JavaScript and Python
+export interface MemberModifiers {
+  // `#name` fields and methods count as private
+  visibility?: MemberVisibility;
+  isStatic?: boolean;
+  isAbstract?: boolean;
+}
+
+export interface SymbolProperty extends MemberModifiers {
+  name: string;
+  type?: string;
+  line: number;
+  isReadonly?: boolean;
+  isOptional?: boolean;
+  // Declared through a constructor parameter, e.g. `constructor(private repo: Repo)`
+  isParameterProperty?: boolean;
+  // A prop of a React component rather than one of its own fields
+  isProp?: boolean;
+}
+
+export interface SymbolMethod extends MemberModifiers {
+  name: string;
+  // Unset for plain methods and functions
+  kind?: 'constructor' | 'get' | 'set';
+  parameters?: string[];
+  returnType?: string;
+  typeParameters?: TypeParameter[];
+  isOptional?: boolean;
+  // The HTTP method and path a controller method handles, e.g. 'GET /users/:id'
+  route?: string;
+  complexity?: number;
+  doc?: SymbolDoc;
+  line: number;
+}
+
+export interface FilterStats {
+  includePatterns: string[];
+  excludePatterns: string[];
+  excluded: Array<{pattern: string; files: number; directories: number}>;
+  notIncluded: number;
+}
+
+export interface AnalyzeOptions {
+  includePatterns?: string[];
+  excludePatterns?: string[];
+  useCache?: boolean;
+  cacheDir?: string;
+  concurrency?: number;
+  // Analyze only these files (absolute paths), plus the files they import or are imported by with `includeNeighbors`
+  onlyFiles?: string[];
+  includeNeighbors?: boolean;
+}
+
+export interface FileAnalysis {
+  symbols: CodeSymbol[];
+  dependencies: Dependency[];
+}
+
+export interface PartitionResult {
+  results: Record<string, FileAnalysis>;
+  errors: Array<{file: string; message: string}>;
+}
+
+export interface CacheStats {
+  enabled: boolean;
+  hits: number;
+  misses: number;
+  evicted: number;
+}
+
+export interface Dependency {
+  from: string;
+  to: string;
+  kind: string;
+  fromSymbol?: string;
+  fromMember?: string;
+  toFile?: string;
+  toSymbol?: string;
+  toMember?: string;
+  count?: number;
+  multiplicity?: 'single' | 'array' | 'optional';
+  cardinality?: Cardinality;
+  specifier?: string;
+  line?: number;
+}
+
+export interface UnresolvedImport {
+  file: string;
+  specifier: string;
+  line?: number;
+  reason: 'not-found' | 'not-analyzed';
+  resolvedPath?: string;
+}
+
+// A symbol dependency whose target could not be pinned to one declaration
+export interface UnresolvedSymbol {
+  file: string;
+  symbol: string;
+  target: string;
+  kind: string;
+  line?: number;
+  reason: 'not-found' | 'ambiguous';
+  // Files declaring a symbol of that name, when ambiguous
+  candidates?: string[];
+}
+
+export interface DeadCodeReport {
+  entryPoints: string[];
+  // `symbol` is the declaration's name, `exportName` what importers would use ('default', aliases)
+  unusedExports: Array<{file: string; symbol: string; exportName: string; line: number}>;
+  unusedPrivateMembers: Array<{file: string; symbol: string; member: string; line: number}>;
+  // Empty when there are no entry points to start from
+  unreachableFiles: string[];
+}
+
+// Contents of the architecture config: layer globs relative to the root and rules between layers
+export interface ArchitectureConfig {
+  layers: Record<string, string[]>;
+  // 'ui -> domain -> infra' allows each layer the ones after it; 'infra !-> ui' forbids one direction
+  rules: string[];
+}
+
+export interface ArchitectureViolation {
+  file: string;
+  line?: number;
+  kind: string;
+  fromSymbol?: string;
+  // File the dependency points at
+  target: string;
+  toSymbol?: string;
+  fromLayer: string;
+  toLayer: string;
+  rule: string;
 }
 
 export interface AnalysisResult {
   symbols: CodeSymbol[];
-  dependencies: Array<{from: string; to: string; kind: string}>;
+  dependencies: Dependency[];
   files: string[];
   errors: Array<{file: string; message: string}>;
+  filterStats?: FilterStats;
+  unresolvedImports?: UnresolvedImport[];
+  unresolvedSymbols?: UnresolvedSymbol[];
+  cacheStats?: CacheStats;
+  diff?: DiffSummary;
+  deadCode?: DeadCodeReport;
+  violations?: ArchitectureViolation[];
 }
\ No newline at end of file
@@ -0,0 +1,68 @@
+import { describe, expect, test } from 'bun:test';
+import { UmlDiff } from './uml-diff.js';
+import { UmlEdge, UmlNode, UmlPayload } from './types.js';
+
+const node = (id: string, symbol: string, kind: UmlNode['kind'], extra: Partial<UmlNode> = {}): UmlNode =>
+  ({ id, label: symbol, symbol, kind, file: 'src/foo.ts', ...extra });
+
+const edge = (source: string, target: string, type: UmlEdge['type']): UmlEdge =>
+  ({ id: `${source}-${type}-${target}`, source, target, type });
+
+const payload = (nodes: UmlNode[], edges: UmlEdge[] = []): UmlPayload => ({
+  diagram: { nodes, edges },
+  mapping: {},
+  directory: { name: 'repo', path: '/repo', kind: 'dir' },
+  metadata: { generatedAt: '2026-01-01T00:00:00.000Z', totalFiles: 1, totalSymbols: nodes.length, rootPath: '/repo' }
+});
+
+describe('UmlDiff', () => {
+  test('classifies added, removed and changed symbols', () => {
+    const base = payload([
+      node('a', 'Kept', 'class', { methods: ['+ run(): void'] }),
+      node('b', 'Gone', 'class'),
+      node('c', 'Same', 'class', { properties: ['+ id: string'] })
+    ]);
+    const head = payload([
+      node('a', 'Kept', 'class', { methods: ['+ run(): number', '+ stop(): void'] }),
+      node('c', 'Same', 'class', { properties: ['+ id: string'] }),
+      node('d', 'Fresh', 'function')
+    ]);
+
+    const { report, merged } = new UmlDiff().diff(base, head);
+
+    expect(report.addedSymbols.map(s => s.name)).toEqual(['Fresh']);
+    expect(report.removedSymbols.map(s => s.name)).toEqual(['Gone']);
+    expect(report.changedSymbols).toHaveLength(1);
+    expect(report.changedSymbols[0].addedMembers).toEqual(['+ stop(): void']);
+    expect(report.changedSymbols[0].changedMembers).toEqual([{ name: 'run()', before: '+ run(): void', after: '+ run(): number' }]);
+    expect(merged.diagram.nodes.map(n => `${n.label}:${n.change}`)).toEqual(['Kept:modified', 'Same:undefined', 'Fresh:added', 'Gone:deleted']);
+  });
+
+  test('keeps a type and a value of the same name apart', () => {
+    const base = payload([node('t', 'Foo', 'interface'), node('v', 'Foo', 'variable'), node('u', 'Use', 'function')],
+      [edge('u', 'v', 'calls')]);
+    const head = payload([node('t', 'Foo', 'interface'), node('u', 'Use', 'function')],
+      [edge('u', 't', 'references')]);
+
+    const { report, merged } = new UmlDiff().diff(base, head);
+
+    expect(report.removedSymbols).toEqual([{ name: 'Foo', kind: 'variable', file: 'src/foo.ts', line: undefined }]);
+    expect(report.changedSymbols).toEqual([]);
+    expect(report.removedEdges.map(e => `${e.source} ${e.type} ${e.target}`)).toEqual(['src/foo.ts:Use calls src/foo.ts:Foo']);
+    expect(merged.diagram.nodes).toHaveLength(3);
+    expect(merged.diagram.edges.find(e => e.change === 'deleted')?.target).toBe('v');
+  });
+
+  test('matches a node whose kind changed and keeps its edges', () => {
+    const base = payload([node('f', 'Foo', 'class'), node('u', 'Use', 'function')], [edge('u', 'f', 'calls')]);
+    const head = payload([node('f2', 'Foo', 'function'), node('u', 'Use', 'function')], [edge('u', 'f2', 'calls')]);
+
+    const { report } = new UmlDiff().diff(base, head);
+
+    expect(report.addedSymbols).toEqual([]);
+    expect(report.removedSymbols).toEqual([]);
+    expect(report.changedSymbols.map(s => s.changedFields)).toEqual([['kind']]);
+    expect(report.addedEdges).toEqual([]);
+    expect(report.removedEdges).toEqual([]);
+  });
+});
@@ -0,0 +1,240 @@
+import * as path from 'path';
+import { UmlPayload, UmlNode, UmlEdge, UmlDiffReport, UmlDiffSymbol, UmlDiffEdge, FileToUmlMap } from './types.js';
+
+// Single-valued node fields compared besides members
+const COMPARED_FIELDS: Array<keyof UmlNode> = ['kind', 'stereotype', 'isAbstract', 'propsType', 'tableName', 'route', 'hooks', 'contexts'];
+
+/**
+ * Compares two generated payloads, e.g. the previous and current run or two
+ * saved snapshots. Nodes are matched by relative file, symbol and kind rather
+ * than by id, since a type and a value may share a name; a node left over on
+ * both sides under the same file and symbol counts as a changed kind. Edges
+ * are matched by their endpoints, type and members.
+ *
+ * `diff` returns a report and a merged payload: the head diagram with
+ * changed nodes and edges tagged, plus what only the base had, tagged
+ * `deleted`, so the plugin can color both sides on one board.
+ */
+export class UmlDiff {
+  diff(base: UmlPayload, head: UmlPayload): { report: UmlDiffReport; merged: UmlPayload } {
+    const baseNodes = this.indexNodes(base);
+    const headNodes = this.indexNodes(head);
+    const baseKeyOf = this.matchNodes(baseNodes, headNodes);
+    const headKeyOf = new Map(Array.from(baseKeyOf, ([headKey, baseKey]) => [baseKey, headKey]));
+
+    const addedSymbols: UmlDiffSymbol[] = [];
+    const removedSymbols: UmlDiffSymbol[] = [];
+    const changedSymbols: UmlDiffReport['changedSymbols'] = [];
+    const mergedNodes: UmlNode[] = [];
+    const mapping: FileToUmlMap = JSON.parse(JSON.stringify(head.mapping));
+
+    headNodes.forEach((node, key) => {
+      const baseKey = baseKeyOf.get(key);
+      const before = baseKey ? baseNodes.get(baseKey) : undefined;
+      if (!before) {
+        addedSymbols.push(this.describeNode(node, head));
+        mergedNodes.push({ ...node, change: 'added' });
+        return;
+      }
+
+      const members = this.compareMembers(before, node);
+      const fields = COMPARED_FIELDS.filter(field => JSON.stringify(before[field]) !== JSON.stringify(node[field]));
+      if (members.added.length || members.removed.length || members.changed.length || fields.length) {
+        changedSymbols.push({
+          ...this.describeNode(node, head),
+          addedMembers: members.added,
+          removedMembers: members.removed,
+          changedMembers: members.changed,
+          changedFields: fields
+        });
+        mergedNodes.push({ ...node, change: 'modified' });
+      } else {
+        mergedNodes.push({ ...node, change: undefined });
+      }
+    });
+
+    // Nodes only the base has keep their base id
+    baseNodes.forEach((node, key) => {
+      if (headKeyOf.has(key)) return;
+      removedSymbols.push(this.describeNode(node, base));
+      const file = this.relativeFile(node.file, base);
+      mergedNodes.push({ ...node, file, change: 'deleted' });
+      if (!mapping[file]) mapping[file] = { symbols: [], nodeIds: [] };
+      mapping[file].symbols.push(node.symbol || node.label);
+      mapping[file].nodeIds.push(node.id);
+    });
+
+    // Edges of the base are rewired to the merged node ids
+    const mergedIdOf = new Map<string, string>();
+    baseNodes.forEach((node, key) => mergedIdOf.set(node.id, headNodes.get(headKeyOf.get(key) || '')?.id || node.id));
+
+    // Base edges are keyed by the head node they were matched with, so a changed kind keeps its edges
+    const baseEdges = this.indexEdges(base, base.diagram.edges, headKeyOf);
+    const headEdges = this.indexEdges(head, head.diagram.edges);
+    const addedEdges: UmlDiffEdge[] = [];
+    const removedEdges: UmlDiffEdge[] = [];
+    const mergedEdges: UmlEdge[] = [];
+
+    headEdges.forEach(({ edge, ref }, key) => {
+      const added = !baseEdges.has(key);
+      if (added) addedEdges.push(ref);
+      mergedEdges.push({ ...edge, change: added ? 'added' : undefined });
+    });
+    baseEdges.forEach(({ edge, ref }, key) => {
+      if (headEdges.has(key)) return;
+      removedEdges.push(ref);
+      mergedEdges.push({
+        ...edge,
+        source: mergedIdOf.get(edge.source) || edge.source,
+        target: mergedIdOf.get(edge.target) || edge.target,
+        change: 'deleted'
+      });
+    });
+
+    const report: UmlDiffReport = {
+      base: { generatedAt: base.metadata.generatedAt, rootPath: base.metadata.rootPath },
+      head: { generatedAt: head.metadata.generatedAt, rootPath: head.metadata.rootPath },
+      summary: {
+        addedSymbols: addedSymbols.length,
+        removedSymbols: removedSymbols.length,
+        changedSymbols: changedSymbols.length,
+        addedEdges: addedEdges.length,
+        removedEdges: removedEdges.length
+      },
+      addedSymbols,
+      removedSymbols,
+      changedSymbols,
+      addedEdges,
+      removedEdges
+    };
+
+    const merged: UmlPayload = {
+      ...head,
+      diagram: { nodes: mergedNodes, edges: mergedEdges, cycles: head.diagram.cycles },
+      mapping,
+      metadata: { ...head.metadata, comparedWith: report.base }
+    };
+
+    return { report, merged };
+  }
+
+  private indexNodes(payload: UmlPayload): Map<string, UmlNode> {
+    const nodes = new Map<string, UmlNode>();
+    payload.diagram.nodes.forEach(node => {
+      const key = this.nodeKey(node, payload);
+      if (!nodes.has(key)) nodes.set(key, node);
+    });
+    return nodes;
+  }
+
+  /**
+   * Pairs head node keys with base node keys: the same key first, then a
+   * node left unpaired on each side under the same file and symbol.
+   */
+  private matchNodes(baseNodes: Map<string, UmlNode>, headNodes: Map<string, UmlNode>): Map<string, string> {
+    const matches = new Map<string, string>();
+    const unmatchedBase = new Map<string, string[]>();
+    baseNodes.forEach((node, key) => {
+      if (headNodes.has(key)) {
+        matches.set(key, key);
+        return;
+      }
+      const name = this.nameKey(key);
+      unmatchedBase.set(name, [...(unmatchedBase.get(name) || []), key]);
+    });
+
+    headNodes.forEach((node, key) => {
+      if (matches.has(key)) return;
+      const baseKey = unmatchedBase.get(this.nameKey(key))?.shift();
+      if (baseKey) matches.set(key, baseKey);
+    });
+    return matches;
+  }
+
+  private indexEdges(payload: UmlPayload, edges: UmlEdge[], renameKeys?: Map<string, string>): Map<string, { edge: UmlEdge; ref: UmlDiffEdge }> {
+    const keyById = new Map(payload.diagram.nodes.map(node => {
+      const key = this.nodeKey(node, payload);
+      return [node.id, renameKeys?.get(key) || key];
+    }));
+    const index = new Map<string, { edge: UmlEdge; ref: UmlDiffEdge }>();
+
+    edges.forEach(edge => {
+      const source = keyById.get(edge.source);
+      const target = keyById.get(edge.target);
+      if (!source || !target) return;
+
+      const key = [source, edge.type, target, edge.sourceMember || '', edge.targetMember || ''].join('|');
+      if (index.has(key)) return;
+      index.set(key, { edge, ref: { type: edge.type, source: this.nameKey(source), target: this.nameKey(target), label: edge.label } });
+    });
+    return index;
+  }
+
+  // `src/users.ts:UserService#class`; module nodes use their `module` symbol
+  private nodeKey(node: UmlNode, payload: UmlPayload): string {
+    return `${this.relativeFile(node.file, payload)}:${node.symbol || node.label}#${node.kind || ''}`;
+  }
+
+  // `src/users.ts:UserService`, as reported
+  private nameKey(nodeKey: string): string {
+    return nodeKey.slice(0, nodeKey.lastIndexOf('#'));
+  }
+
+  // Payloads carry relative paths; absolute ones come from snapshots saved before that
+  private relativeFile(file: string, payload: UmlPayload): string {
+    const rootPath = payload.metadata.rootPath;
+    return path.isAbsolute(file) && rootPath ? path.relative(rootPath, file).split(path.sep).join('/') : file;
+  }
+
+  private describeNode(node: UmlNode, payload: UmlPayload): UmlDiffSymbol {
+    return { name: node.label, kind: node.kind, file: this.relativeFile(node.file, payload), line: node.line };
+  }
+
+  /**
+   * Members are matched by name across properties and methods; a member
+   * whose rendered signature differs is reported with both versions.
+   */
+  private compareMembers(before: UmlNode, after: UmlNode) {
+    const beforeMembers = this.members(before);
+    const afterMembers = this.members(after);
+    const added: string[] = [];
+    const removed: string[] = [];
+    const changed: Array<{ name: string; before: string; after: string }> = [];
+
+    afterMembers.forEach((signature, name) => {
+      const previous = beforeMembers.get(name);
+      if (previous === undefined) added.push(signature);
+      else if (previous !== signature) changed.push({ name, before: previous, after: signature });
+    });
+    beforeMembers.forEach((signature, name) => {
+      if (!afterMembers.has(name)) removed.push(signature);
+    });
+
+    return { added, removed, changed };
+  }
+
+  private members(node: UmlNode): Map<string, string> {
+    const members = new Map<string, string>();
+    // A prop may share a field's name, and overloads and accessors share one; keep them apart by position within it
+    const add = (name: string, signature: string) => {
+      let key = name;
+      for (let i = 2; members.has(key); i++) key = `${name}#${i}`;
+      members.set(key, signature);
+    };
+    node.properties?.forEach(signature => add(this.memberName(signature), signature));
+    node.methods?.forEach(signature => add(`${this.memberName(signature)}()`, signature));
+    return members;
+  }
+
+  // `GET /users → + find(id): User`, `PK id: int`, `- {static} «get» email?: string`, `+ map<T>(item): T`
+  private memberName(signature: string): string {
+    const withoutRoute = signature.includes(' → ') && /^[A-Z]+ \//.test(signature) ?
+      signature.slice(signature.indexOf(' → ') + 3) : signature;
+    const name = withoutRoute
+      .replace(/^(PK|FK) /, '')
+      .replace(/^[+#-] /, '')
+      .replace(/^(\{\w+\} |«\w+» )+/, '')
+      .split(/[(:<]/)[0];
+    return name.replace(/\?$/, '').trim();
+  }
+}
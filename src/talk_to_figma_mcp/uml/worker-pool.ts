@@ -0,0 +1,76 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { Worker } from 'worker_threads';
+import type { ts } from 'ts-morph';
+import { PartitionResult } from './types.js';
+
+export interface PartitionTask {
+  contents: Record<string, string>;
+  targets: string[];
+  compilerOptions: ts.CompilerOptions;
+}
+
+/**
+ * Runs file partitions through `analysis-worker` on separate threads.
+ *
+ * Every worker sees the contents of all files so the type checker can resolve
+ * calls and references across partitions, but only parses and analyzes its
+ * own targets. Results come back in partition order.
+ */
+export class AnalysisWorkerPool {
+  static partition(files: Array<{filePath: string; size: number}>, count: number): string[][] {
+    const totalSize = files.reduce((sum, file) => sum + file.size, 0);
+    const target = totalSize / count;
+    const partitions: string[][] = [[]];
+    let currentSize = 0;
+
+    // Contiguous chunks keep directories together, which keeps lazily loaded imports local
+    files.forEach(file => {
+      if (currentSize >= target && partitions.length < count) {
+        partitions.push([]);
+        currentSize = 0;
+      }
+      partitions[partitions.length - 1].push(file.filePath);
+      currentSize += file.size;
+    });
+
+    return partitions.filter(partition => partition.length > 0);
+  }
+
+  async run(tasks: PartitionTask[]): Promise<PartitionResult[]> {
+    const workerPath = AnalysisWorkerPool.resolveWorkerPath();
+    return Promise.all(tasks.map(task => this.runTask(workerPath, task)));
+  }
+
+  private runTask(workerPath: string, task: PartitionTask): Promise<PartitionResult> {
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(workerPath, { workerData: task });
+      let settled = false;
+
+      worker.once('message', (result: PartitionResult) => {
+        settled = true;
+        resolve(result);
+        worker.terminate();
+      });
+      worker.once('error', error => {
+        settled = true;
+        reject(error);
+      });
+      worker.once('exit', code => {
+        if (!settled) reject(new Error(`Analysis worker exited with code ${code}`));
+      });
+    });
+  }
+
+  private static resolveWorkerPath(): string {
+    // Bundled CommonJS output has no import.meta; ESM output and sources have no __dirname
+    const directory = typeof __dirname !== 'undefined' ? __dirname : path.dirname(fileURLToPath(import.meta.url));
+    const candidates = ['analysis-worker.js', 'analysis-worker.ts'].map(name => path.join(directory, name));
+    const workerPath = candidates.find(candidate => fs.existsSync(candidate));
+    if (!workerPath) {
+      throw new Error(`Analysis worker not found next to ${directory}`);
+    }
+    return workerPath;
+  }
+}
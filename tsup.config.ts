@@ -1,7 +1,11 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/talk_to_figma_mcp/server.ts'],
+  // The analysis worker is loaded by path at runtime, so it needs its own file next to server.js
+  entry: {
+    server: 'src/talk_to_figma_mcp/server.ts',
+    'analysis-worker': 'src/talk_to_figma_mcp/uml/analysis-worker.ts',
+  },
   format: ['cjs', 'esm'],
   dts: true,
   clean: true,